@@ -0,0 +1,159 @@
+// Local stand-in for the analysis worker
+// Run with `npm run dev:worker` and set ANALYSIS_WORKER_URL=http://localhost:8787/ in .env.local
+//
+// Implements the chunked upload protocol (see src/utils/chunkedUpload.ts) and answers
+// analysis requests with a canned result, so uploads can be tested without burning
+// real API calls. Set DROP_RATE=0.2 to randomly kill chunk requests and exercise retries.
+
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DROP_RATE = Number(process.env.DROP_RATE) || 0;
+const UPLOAD_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'viralaudit-uploads-'));
+
+const sessions = new Map(); // sessionId -> { fileName, size, mimeType, path }
+
+const CANNED_ANALYSIS = {
+  overallScore: 6,
+  verdict: 'Local stand-in result - the dev upload server does not run a model.',
+  categories: {
+    visual: { score: 60, feedback: 'Placeholder visual feedback.', fix: 'Placeholder fix.' },
+    audio: { score: 60, feedback: 'Placeholder audio feedback.', fix: 'Placeholder fix.' },
+    copy: { score: 60, feedback: 'Placeholder copy feedback.', fix: 'Placeholder fix.' },
+    captions: { score: 60, feedback: 'Placeholder captions feedback.', fix: 'Placeholder fix.' },
+  },
+  checks: [
+    { label: 'Hook in first 3 seconds', status: 'WARN', details: 'Placeholder check.', fix: 'Placeholder fix.' },
+    { label: 'Call to action', status: 'PASS', details: 'Placeholder check.', fix: '' },
+  ],
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Same event sequence a streaming worker sends (see src/utils/analysisStream.ts)
+const streamAnalysis = async (res) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const event = async (name, data, progress) => {
+    res.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (progress !== undefined) res.write(`event: progress\ndata: ${JSON.stringify({ progress })}\n\n`);
+    await sleep(400);
+  };
+
+  const { overallScore, verdict, categories, checks } = CANNED_ANALYSIS;
+  await event('received', {}, 5);
+  await event('started', { model: 'Dev stand-in' }, 10);
+  await event('verdict', { overallScore, verdict }, 30);
+  for (const [i, key] of Object.keys(categories).entries()) {
+    await event('category', { key, category: categories[key] }, 30 + (i + 1) * 15);
+  }
+  for (const check of checks) await event('check', { check });
+  await event('done', { text: JSON.stringify(CANNED_ANALYSIS) }, 100);
+  res.end();
+};
+
+const currentOffset = (session) => (fs.existsSync(session.path) ? fs.statSync(session.path).size : 0);
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Upload-Offset, Accept');
+  // The app is cross-origin isolated (COEP), so responses must opt in
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/uploads(?:\/([\w-]+))?$/);
+
+  try {
+    // Start a session
+    if (match && !match[1] && req.method === 'POST') {
+      const { fileName, size, mimeType } = JSON.parse((await readBody(req)).toString());
+      const sessionId = crypto.randomUUID();
+      sessions.set(sessionId, { fileName, size, mimeType, path: path.join(UPLOAD_DIR, sessionId) });
+      console.log(`📤 ${sessionId} ${fileName} (${(size / 1024 / 1024).toFixed(1)}MB)`);
+      return send(res, 201, { sessionId, offset: 0 });
+    }
+
+    const session = match?.[1] && sessions.get(match[1]);
+    if (match?.[1] && !session) return send(res, 404, { error: 'Unknown upload session' });
+
+    // Where to resume from
+    if (session && req.method === 'GET') {
+      return send(res, 200, { offset: currentOffset(session) });
+    }
+
+    // Append a chunk
+    if (session && req.method === 'PUT') {
+      const offset = Number(req.headers['upload-offset']);
+      const body = await readBody(req);
+
+      if (Math.random() < DROP_RATE) {
+        console.log(`💥 Dropping chunk at ${offset}`);
+        return req.socket.destroy();
+      }
+
+      const stored = currentOffset(session);
+      if (offset !== stored) return send(res, 409, { error: 'Offset mismatch', offset: stored });
+
+      fs.appendFileSync(session.path, body);
+      return send(res, 200, { offset: currentOffset(session) });
+    }
+
+    // Comparison request - the first variant wins
+    if (url.pathname === '/compare' && req.method === 'POST') {
+      const { variants = [] } = JSON.parse((await readBody(req)).toString());
+      const [first] = variants.map((variant) => variant.label);
+      console.log(`⚖️ Comparison of ${variants.length} variants`);
+      const judgement = {
+        winner: first,
+        reasons: ['Local stand-in result - the dev upload server does not run a model.'],
+        hook: { winner: first, explanation: 'Placeholder hook comparison.' },
+        cta: { winner: first, explanation: 'Placeholder CTA comparison.' },
+        summary: 'Placeholder summary.',
+      };
+      return send(res, 200, { candidates: [{ content: { parts: [{ text: JSON.stringify(judgement) }] } }] });
+    }
+
+    // Analysis request - drain the form and return the canned result,
+    // streamed as server-sent events if the client asks for them
+    if (url.pathname === '/' && req.method === 'POST') {
+      await readBody(req);
+      const streaming = (req.headers.accept || '').includes('text/event-stream');
+      console.log(`🤖 Analysis request${streaming ? ' (streaming)' : ''}`);
+      if (streaming) return streamAnalysis(res);
+      return send(res, 200, {
+        candidates: [{ content: { parts: [{ text: JSON.stringify(CANNED_ANALYSIS) }] } }],
+      });
+    }
+
+    send(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('❌', error);
+    send(res, 500, { error: { message: String(error) } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Dev analysis worker on http://localhost:${PORT}/ (uploads in ${UPLOAD_DIR})`);
+});
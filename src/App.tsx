@@ -7,9 +7,14 @@ import { SubscriptionProvider } from "./context/SubscriptionContext";
 import LandingPage from "./pages/LandingPage";
 import Dashboard from "./pages/Dashboard";
 import NewAudit from "./pages/NewAudit";
+import BatchAudit from "./pages/BatchAudit";
+import BatchSummary from "./pages/BatchSummary";
+import CompareAudit from "./pages/CompareAudit";
+import ComparisonResult from "./pages/ComparisonResult";
 import AuditResult from "./pages/AuditResult";
 import AuthPage from "./pages/AuthPage";
 import Billing from "./pages/Billing";
+import Settings from "./pages/Settings";
 
 // Protected Route Component
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -52,6 +57,26 @@ const App = () => {
                 <NewAudit />
               </ProtectedRoute>
             } />
+            <Route path="/audit/batch" element={
+              <ProtectedRoute>
+                <BatchAudit />
+              </ProtectedRoute>
+            } />
+            <Route path="/batch/:id" element={
+              <ProtectedRoute>
+                <BatchSummary />
+              </ProtectedRoute>
+            } />
+            <Route path="/compare/new" element={
+              <ProtectedRoute>
+                <CompareAudit />
+              </ProtectedRoute>
+            } />
+            <Route path="/compare/:id" element={
+              <ProtectedRoute>
+                <ComparisonResult />
+              </ProtectedRoute>
+            } />
             <Route path="/audit/:id" element={
               <ProtectedRoute>
                 <AuditResult />
@@ -62,6 +87,11 @@ const App = () => {
                 <Billing />
               </ProtectedRoute>
             } />
+            <Route path="/settings" element={
+              <ProtectedRoute>
+                <Settings />
+              </ProtectedRoute>
+            } />
             
             {/* Fallback */}
             <Route path="*" element={<Navigate to="/" replace />} />
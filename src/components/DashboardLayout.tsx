@@ -3,6 +3,7 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { useAuth } from "../context/AuthContext";
 import { useSubscription } from "../context/SubscriptionContext";
+import { supportsWorkerFeature } from "../utils/analysisProviders";
 
 // ==========================================
 // SIDEBAR NAV ITEM
@@ -72,7 +73,10 @@ const DashboardLayout = ({ children }: { children: React.ReactNode }) => {
   const navItems = [
     { to: "/dashboard", icon: "fa-solid fa-grid-2", label: "Overview" },
     { to: "/audit/new", icon: "fa-solid fa-plus", label: "New Audit" },
+    { to: "/audit/batch", icon: "fa-solid fa-layer-group", label: "Batch Audit" },
+    ...(supportsWorkerFeature("compare") ? [{ to: "/compare/new", icon: "fa-solid fa-code-compare", label: "A/B Compare" }] : []),
     { to: "/billing", icon: "fa-solid fa-receipt", label: "Billing" },
+    { to: "/settings", icon: "fa-solid fa-sliders", label: "Settings" },
   ];
 
   // Plan display name
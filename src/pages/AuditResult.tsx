@@ -3,10 +3,12 @@ import { motion } from "framer-motion";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { useAuth, supabase } from "../context/AuthContext";
 import { useSubscription } from "../context/SubscriptionContext";
-import { AuditRecord } from "../types";
+import { AuditRecord, PacingAnalysis, SafeZonePlatform, SafeZoneSnapshot, TechnicalCheck, TechnicalScoreBreakdown } from "../types";
 import DashboardLayout from "../components/DashboardLayout";
 import { generateAuditPDF } from "../utils/pdfExport";
 import { openCheckout } from "../utils/lemonsqueezy";
+import { getTechnicalChecks, describeScoringFormula, TECHNICAL_CHECK_LABELS, formatTimestamp } from "../utils/technicalAnalysis";
+import { SAFE_ZONES } from "../utils/platforms";
 
 // ==========================================
 // SCORE CIRCLE COMPONENT
@@ -157,6 +159,235 @@ const CategoryCard = ({
   );
 };
 
+// ==========================================
+// PACING CARD COMPONENT
+// ==========================================
+// Nothing changing on screen for this long is where viewers scroll away
+const STATIC_WARNING_SECONDS = 3;
+
+const PacingCard = ({ pacing }: { pacing: PacingAnalysis }) => {
+  const { longestStaticStretch: stillest } = pacing;
+  const cutSeconds = new Set(pacing.cuts.map(Math.floor));
+  const isSlow = stillest.duration >= STATIC_WARNING_SECONDS;
+
+  const stats = [
+    { label: "Shots", value: `${pacing.shotCount}` },
+    { label: "Avg Shot Length", value: `${pacing.averageShotLength.toFixed(1)}s` },
+    { label: "Cuts per Minute", value: `${Math.round(pacing.cutsPerMinute)}` },
+    {
+      label: "Longest Static Stretch",
+      value: `${stillest.duration.toFixed(1)}s`,
+      subtext: stillest.duration > 0 ? `${formatTimestamp(stillest.start)}-${formatTimestamp(stillest.end)}` : undefined,
+      warn: isSlow,
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="bg-gradient-to-br from-[#0d0d0d] to-[#111] border border-[#1a1a1a] rounded-2xl p-6 mb-8"
+    >
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center">
+          <i className="fa-solid fa-film text-white"></i>
+        </div>
+        <div>
+          <h3 className="text-white font-medium">Pacing</h3>
+          <p className="text-zinc-500 text-xs">Measured from the video frames</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-5">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className={`p-4 rounded-xl border ${
+              stat.warn ? 'bg-yellow-500/5 border-yellow-500/20' : 'bg-white/[0.02] border-white/5'
+            }`}
+          >
+            <p className="text-zinc-400 text-xs font-medium mb-2">{stat.label}</p>
+            <p className={`text-sm font-medium ${stat.warn ? 'text-yellow-400' : 'text-white'}`}>{stat.value}</p>
+            {stat.subtext && <p className="text-zinc-500 text-xs mt-1">{stat.subtext}</p>}
+          </div>
+        ))}
+      </div>
+
+      {/* Activity per second, cuts highlighted */}
+      <div className="flex items-end gap-[2px] h-16">
+        {pacing.activity.map((level, second) => (
+          <div
+            key={second}
+            title={`${formatTimestamp(second)}${cutSeconds.has(second) ? ' • cut' : ''}`}
+            className={`flex-1 rounded-sm ${cutSeconds.has(second) ? 'bg-white' : 'bg-zinc-600'}`}
+            style={{ height: `${Math.max(4, level * 100)}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-zinc-500 text-xs mt-2">
+        <span>0:00</span>
+        <span>Visual activity per second (white = cut)</span>
+        <span>{formatTimestamp(pacing.activity.length)}</span>
+      </div>
+    </motion.div>
+  );
+};
+
+// ==========================================
+// SAFE ZONE CARD COMPONENT
+// ==========================================
+const SafeZoneCard = ({ snapshot, check }: { snapshot: SafeZoneSnapshot; check: TechnicalCheck }) => {
+  const [platform, setPlatform] = useState<SafeZonePlatform>(snapshot.platforms[0] || "tiktok");
+  const layout = SAFE_ZONES[platform];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="bg-gradient-to-br from-[#0d0d0d] to-[#111] border border-[#1a1a1a] rounded-2xl p-6 mb-8"
+    >
+      <div className="flex items-center gap-3 mb-5">
+        <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center">
+          <i className="fa-solid fa-mobile-screen text-white"></i>
+        </div>
+        <div>
+          <h3 className="text-white font-medium">Safe Zones</h3>
+          <p className="text-zinc-500 text-xs">What the app UI covers at {formatTimestamp(snapshot.time)}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-6">
+        {/* Frame with the platform UI areas drawn on top */}
+        <div className="relative w-40 flex-shrink-0 mx-auto sm:mx-0 rounded-xl overflow-hidden border border-white/10">
+          <img src={snapshot.image} alt="Frame with safe-zone overlay" className="w-full block" />
+          {layout.regions.map((region) => (
+            <div
+              key={region.name}
+              title={region.name}
+              className="absolute bg-red-500/30 border border-red-500/60"
+              style={{
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+              }}
+            />
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex gap-2 mb-4">
+            {(Object.keys(SAFE_ZONES) as SafeZonePlatform[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setPlatform(key)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  platform === key ? 'bg-white text-black' : 'bg-white/5 text-zinc-400 hover:bg-white/10'
+                }`}
+              >
+                {SAFE_ZONES[key].label}
+                {snapshot.platforms.includes(key) && <i className="fa-solid fa-circle text-[6px] text-red-400 ml-2 align-middle"></i>}
+              </button>
+            ))}
+          </div>
+          <p className="text-gray-300 text-sm leading-relaxed mb-3">{check.details}</p>
+          <p className="text-zinc-500 text-xs mb-3">
+            Red areas are covered by the {layout.label} {layout.regions.map(r => r.name.toLowerCase()).join(', ')}.
+          </p>
+          {check.timestamps && check.timestamps.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {check.timestamps.map((time) => (
+                <span key={time} className="px-2 py-1 bg-red-500/10 text-red-400 rounded text-xs font-mono">
+                  {formatTimestamp(time)}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+// ==========================================
+// VALIDATION WARNINGS
+// ==========================================
+const ValidationWarnings = ({ warnings }: { warnings: string[] }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-2xl px-5 py-4 mb-8">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-yellow-400 text-sm font-medium w-full text-left"
+      >
+        <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+        The AI response needed {warnings.length} correction{warnings.length === 1 ? "" : "s"} - some results may be incomplete
+        <i className={`fa-solid fa-chevron-${open ? "down" : "right"} ml-2 text-xs`}></i>
+      </button>
+      {open && (
+        <ul className="mt-3 space-y-1 text-sm text-zinc-400 list-disc list-inside">
+          {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ==========================================
+// TECHNICAL SCORE EXPLANATION
+// ==========================================
+const TechnicalScoreExplanation = ({ breakdown }: { breakdown: TechnicalScoreBreakdown }) => {
+  const [open, setOpen] = useState(false);
+  const customWeights = Object.entries(breakdown.config.weights).filter(([, weight]) => weight !== 1);
+
+  return (
+    <div className="mt-5 pt-5 border-t border-white/5">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-zinc-500 hover:text-white text-xs transition-colors"
+      >
+        <i className={`fa-solid fa-chevron-${open ? "down" : "right"} mr-2`}></i>
+        How this score was calculated
+      </button>
+      {open && (
+        <div className="mt-3 space-y-2 text-sm">
+          <p className="text-zinc-400">{describeScoringFormula(breakdown.config)}</p>
+          {breakdown.deductions.length === 0 ? (
+            <p className="text-zinc-500">No deductions - every check passed.</p>
+          ) : (
+            breakdown.deductions.map((d) => (
+              <div key={d.check} className="flex justify-between text-zinc-300">
+                <span>
+                  {d.label}{" "}
+                  <span className={d.status === "FAIL" ? "text-red-400" : "text-yellow-400"}>{d.status}</span>
+                </span>
+                <span className="font-mono text-zinc-400">-{d.points}</span>
+              </div>
+            ))
+          )}
+          {breakdown.hardFail && (
+            <p className="text-red-400">
+              Hard-fail rule: {breakdown.hardFail.label} caps the score at {breakdown.hardFail.maxScore}.
+            </p>
+          )}
+          {customWeights.length > 0 && (
+            <p className="text-zinc-500 text-xs">
+              Custom weights:{" "}
+              {customWeights
+                .map(([key, weight]) => `${TECHNICAL_CHECK_LABELS[key as keyof typeof TECHNICAL_CHECK_LABELS] || key} ×${weight}`)
+                .join(", ")}
+            </p>
+          )}
+          <p className="text-zinc-600 text-xs font-mono">{breakdown.formula}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ==========================================
 // AUDIT RESULT PAGE
 // ==========================================
@@ -212,22 +443,10 @@ const AuditResult = () => {
   };
 
   // Helper to get category data with fallbacks
-  const getCategoryData = (title: string, data: any) => {
-    let feedback = data?.feedback || "";
-    let fix = data?.fix || "";
-    
-    // Special handling for captions with no/minimal feedback
-    if (title === "Captions" && (!feedback || feedback === "No feedback." || feedback === "No feedback" || feedback === "No feedback available." || feedback.length < 30)) {
-      feedback = "No captions detected. 85% of people watch videos on mute. Without captions, you're invisible to most of your audience.";
-      fix = "Add captions to every word spoken in the video. Use big, bold white text with a black outline so it's readable on any background.";
-    }
-    
-    // Default fallback for any empty feedback
-    if (!feedback) {
-      feedback = "No feedback available.";
-    }
-    
-    return { feedback, fix, score: data?.score || 0 };
+  const getCategoryData = (data: any) => {
+    // Audits saved before responses were validated can be missing a category
+    const feedback = data?.feedback || "No feedback available.";
+    return { feedback, fix: data?.fix || "", score: data?.score || 0 };
   };
 
   if (loading) {
@@ -274,7 +493,15 @@ const AuditResult = () => {
               Back to Dashboard
             </Link>
             <h1 className="text-2xl font-medium text-white truncate max-w-md">{audit.video_name}</h1>
-            <p className="text-zinc-500 text-sm mt-1">{formatDate(audit.created_at)}</p>
+            <p className="text-zinc-500 text-sm mt-1">
+              {formatDate(audit.created_at)}
+              {audit.batch_id && (
+                <Link to={`/batch/${audit.batch_id}`} className="ml-3 text-zinc-400 hover:text-white transition-colors">
+                  <i className="fa-solid fa-layer-group mr-1"></i>
+                  View batch ranking
+                </Link>
+              )}
+            </p>
           </div>
           <div className="flex gap-3">
             {subscription.canExportPdf ? (
@@ -342,6 +569,10 @@ const AuditResult = () => {
           </div>
         </motion.div>
 
+        {audit.validation_warnings && audit.validation_warnings.length > 0 && (
+          <ValidationWarnings warnings={audit.validation_warnings} />
+        )}
+
         {/* ==================== PRIORITY FIXES ==================== */}
         {failedChecks.length > 0 && (
           <motion.div
@@ -390,14 +621,27 @@ const AuditResult = () => {
               </div>
               <div>
                 <h3 className="text-white font-medium">Technical Specs</h3>
-                <p className="text-zinc-500 text-xs">Platform compatibility checks</p>
+                <p className="text-zinc-500 text-xs">
+                  {audit.platform_profile
+                    ? `Checked against ${audit.platform_profile.label} specs`
+                    : 'Platform compatibility checks'}
+                </p>
               </div>
+              {audit.technical_score && (
+                <div className="ml-auto text-right">
+                  <p className="text-white text-2xl font-medium">
+                    {audit.technical_score.score}
+                    <span className="text-zinc-500 text-sm">/100</span>
+                  </p>
+                  <p className="text-zinc-500 text-xs">Technical score</p>
+                </div>
+              )}
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
-              {Object.entries(audit.technical_analysis).map(([key, check]: [string, any]) => (
+              {getTechnicalChecks(audit.technical_analysis).map((check) => (
                 <div 
-                  key={key}
+                  key={check.label}
                   className={`p-4 rounded-xl border ${
                     check.status === 'FAIL' 
                       ? 'bg-red-500/5 border-red-500/20' 
@@ -425,11 +669,11 @@ const AuditResult = () => {
             
             {/* Show issues with fixes */}
             {(() => {
-              const issues = Object.values(audit.technical_analysis).filter((c: any) => c.status !== 'PASS' && c.fix);
+              const issues = getTechnicalChecks(audit.technical_analysis).filter(c => c.status !== 'PASS' && c.fix);
               if (issues.length > 0) {
                 return (
                   <div className="mt-5 pt-5 border-t border-white/5 space-y-3">
-                    {issues.map((issue: any, idx) => (
+                    {issues.map((issue, idx) => (
                       <div key={idx} className={`p-4 rounded-xl border ${
                         issue.status === 'FAIL' ? 'bg-red-500/5 border-red-500/20' : 'bg-yellow-500/5 border-yellow-500/20'
                       }`}>
@@ -448,6 +692,15 @@ const AuditResult = () => {
                                 {issue.fix}
                               </p>
                             )}
+                            {issue.timestamps && issue.timestamps.length > 0 && (
+                              <div className="flex flex-wrap gap-2 mt-2">
+                                {issue.timestamps.map((time) => (
+                                  <span key={time} className="px-2 py-1 bg-white/5 text-zinc-300 rounded text-xs font-mono">
+                                    {formatTimestamp(time)}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -457,9 +710,24 @@ const AuditResult = () => {
               }
               return null;
             })()}
+
+            {audit.technical_score && <TechnicalScoreExplanation breakdown={audit.technical_score} />}
           </motion.div>
         )}
 
+        {/* ==================== SAFE ZONES ==================== */}
+        {audit.technical_analysis?.safeZoneFrame && audit.technical_analysis.safeZones && (
+          <SafeZoneCard
+            snapshot={audit.technical_analysis.safeZoneFrame}
+            check={audit.technical_analysis.safeZones}
+          />
+        )}
+
+        {/* ==================== PACING ==================== */}
+        {audit.technical_analysis?.pacing && (
+          <PacingCard pacing={audit.technical_analysis.pacing} />
+        )}
+
         {/* ==================== CATEGORY BREAKDOWN ==================== */}
         <div className="mb-8">
           <h2 className="text-lg font-medium text-white mb-5 flex items-center gap-2">
@@ -474,7 +742,7 @@ const AuditResult = () => {
               { title: "Copy", icon: "fa-pen-nib", data: audit.categories?.copy },
               { title: "Captions", icon: "fa-closed-captioning", data: audit.categories?.captions },
             ].map((cat, idx) => {
-              const { feedback, fix, score } = getCategoryData(cat.title, cat.data);
+              const { feedback, fix, score } = getCategoryData(cat.data);
               return (
                 <CategoryCard
                   key={cat.title}
@@ -520,6 +788,18 @@ const AuditResult = () => {
                 {/* Check Content */}
                 <div className="p-5">
                   <p className="text-gray-300 text-sm leading-relaxed mb-4">{check.details}</p>
+
+                  {/* Objective pacing data to cross-check the AI's retention call */}
+                  {check.label === "Does It Keep You Watching?" && audit.technical_analysis?.pacing && (
+                    <p className="text-zinc-400 text-xs mb-4">
+                      <i className="fa-solid fa-film mr-2"></i>
+                      Measured: {audit.technical_analysis.pacing.shotCount} shots,{' '}
+                      {audit.technical_analysis.pacing.averageShotLength.toFixed(1)}s average,{' '}
+                      longest static stretch {audit.technical_analysis.pacing.longestStaticStretch.duration.toFixed(1)}s
+                      {audit.technical_analysis.pacing.longestStaticStretch.duration > 0 &&
+                        ` at ${formatTimestamp(audit.technical_analysis.pacing.longestStaticStretch.start)}`}
+                    </p>
+                  )}
                   
                   {check.fix && (
                     <div className="bg-white/5 border border-[white]/20 rounded-xl p-4">
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import { useSubscription } from "../context/SubscriptionContext";
+import { PlatformProfileId } from "../types";
+import DashboardLayout from "../components/DashboardLayout";
+import { isAbortError } from "../utils/compression";
+import { runAudit, createLimiter, AuditStage } from "../utils/auditRunner";
+import { JOB_STATUS_LABELS } from "../utils/auditJobs";
+import { useScoringConfig } from "../utils/technicalAnalysis";
+import { PLATFORM_PROFILES, DEFAULT_PROFILE_ID } from "../utils/platforms";
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+const MAX_BATCH_FILES = 30;
+const MAX_SIZE_MB = 500;
+
+// Uploads and analysis overlap; compression and spec scans still go one at a time
+const CONCURRENT_AUDITS = 3;
+
+// ==========================================
+// TYPES
+// ==========================================
+type BatchItemStatus = 'pending' | AuditStage | 'done' | 'failed';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  /** Null while the analysis has no real percentage to show */
+  progress: number | null;
+  message: string;
+  auditId?: string | null;
+  score?: number;
+  error?: string;
+}
+
+// ==========================================
+// QUEUE ITEM COMPONENT
+// ==========================================
+const QueueItem = ({ item, onRemove }: { item: BatchItem; onRemove?: () => void }) => {
+  const active = item.status === 'compressing' || item.status === 'uploading' || item.status === 'analyzing';
+
+  return (
+    <div className="p-4 flex items-center gap-4">
+      <div className="w-10 h-10 bg-white/5 rounded-lg flex items-center justify-center flex-shrink-0">
+        <i className={`fa-solid ${
+          item.status === "done" ? "fa-check text-green-400" :
+          item.status === "failed" ? "fa-triangle-exclamation text-red-400" :
+          active ? "fa-spinner fa-spin text-white" :
+          "fa-video text-zinc-600"
+        } text-sm`}></i>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-white font-medium truncate text-sm">{item.file.name}</p>
+        <p className={`text-xs ${item.status === "failed" ? "text-red-400" : "text-zinc-600"}`}>
+          {item.status === "pending" && (item.message || `${(item.file.size / 1024 / 1024).toFixed(1)}MB • Waiting`)}
+          {active && `${JOB_STATUS_LABELS[item.status as AuditStage]} • ${item.message || (item.progress === null ? "Working..." : `${item.progress}%`)}`}
+          {item.status === "done" && "Done"}
+          {item.status === "failed" && (item.error || "Failed")}
+        </p>
+        {active && (
+          <div className="h-1 bg-[#222] rounded-full overflow-hidden mt-2 max-w-xs">
+            {item.progress === null ? (
+              <div className="h-full w-full bg-white/40 animate-pulse" />
+            ) : (
+              <div className="h-full bg-white transition-all" style={{ width: `${item.progress}%` }} />
+            )}
+          </div>
+        )}
+      </div>
+
+      {item.status === "done" && item.score !== undefined && (
+        <Link
+          to={`/audit/${item.auditId}`}
+          className="px-2.5 py-1 rounded-lg text-sm font-medium border border-white/10 text-white hover:bg-white/5"
+        >
+          {item.score}/10
+        </Link>
+      )}
+
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="p-2 text-zinc-600 hover:text-red-400 transition-colors"
+          title="Remove"
+        >
+          <i className="fa-solid fa-xmark text-sm"></i>
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ==========================================
+// BATCH AUDIT PAGE
+// ==========================================
+const BatchAudit = () => {
+  const { user, refreshStats } = useAuth();
+  const subscription = useSubscription();
+
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [notice, setNotice] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [profileId, setProfileId] = useState<PlatformProfileId>(DEFAULT_PROFILE_ID);
+  const [useDeepAnalysis, setUseDeepAnalysis] = useState(false);
+  const scoringConfig = useScoringConfig(user);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const canUseDeepAnalysis = subscription.plan === 'pro' || subscription.plan === 'agency';
+
+  // Stop the batch when leaving the page - unfinished jobs can be resumed from the dashboard
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const skipped: string[] = [];
+    const added: BatchItem[] = [];
+
+    for (const file of Array.from(files)) {
+      const duplicate = [...items, ...added].some((item) => item.file.name === file.name && item.file.size === file.size);
+      if (!file.type.startsWith("video/")) skipped.push(`${file.name} (not a video)`);
+      else if (file.size > MAX_SIZE_MB * 1024 * 1024) skipped.push(`${file.name} (over ${MAX_SIZE_MB}MB)`);
+      else if (duplicate) skipped.push(`${file.name} (already added)`);
+      else if (items.length + added.length >= MAX_BATCH_FILES) skipped.push(`${file.name} (batch limit is ${MAX_BATCH_FILES})`);
+      else added.push({ id: crypto.randomUUID(), file, status: "pending", progress: 0, message: "" });
+    }
+
+    setItems([...items, ...added]);
+    setNotice(skipped.length ? `Skipped ${skipped.join(", ")}` : "");
+  };
+
+  // Pending and failed items are what a start (or retry) will run
+  const toRun = items.filter((item) => item.status === "pending" || item.status === "failed");
+  const overQuota = toRun.length > subscription.auditsRemaining;
+  const finished = !running && items.length > 0 && items.every((item) => item.status === "done" || item.status === "failed");
+  const doneCount = items.filter((item) => item.status === "done").length;
+
+  const startBatch = async () => {
+    if (!user || running || toRun.length === 0 || overQuota) return;
+
+    const id = batchId || crypto.randomUUID();
+    setBatchId(id);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    console.log(`📦 Batch ${id}: ${toRun.length} videos, ${CONCURRENT_AUDITS} at a time`);
+
+    const auditSlot = createLimiter(CONCURRENT_AUDITS);
+    const localSlot = createLimiter(1);
+
+    await Promise.all(toRun.map((item) => auditSlot(async () => {
+      if (controller.signal.aborted) {
+        updateItem(item.id, { status: "failed", error: "Cancelled" });
+        return;
+      }
+      updateItem(item.id, { status: "pending", progress: 0, message: "Starting...", error: undefined });
+
+      try {
+        const { auditId, data } = await runAudit({
+          userId: user.id,
+          licenseKey: user.email || "",
+          profile: PLATFORM_PROFILES[profileId],
+          scoringConfig,
+          deepAnalysis: useDeepAnalysis,
+          uploadFrames: false,
+          file: item.file,
+          batchId: id,
+          signal: controller.signal,
+          localSlot,
+          onStage: (stage) => updateItem(item.id, { status: stage, progress: 0 }),
+          onProgress: (progress, message) => updateItem(item.id, message ? { progress, message } : { progress }),
+        });
+        updateItem(item.id, { status: "done", progress: 100, auditId, score: data.overallScore });
+        refreshStats();
+      } catch (e: any) {
+        if (!isAbortError(e)) console.error(`Batch audit of ${item.file.name} failed:`, e);
+        updateItem(item.id, { status: "failed", error: isAbortError(e) ? "Cancelled" : e.message || "Analysis failed" });
+      }
+    })));
+
+    controllerRef.current = null;
+    setRunning(false);
+    console.log(`📦 Batch ${id} finished`);
+  };
+
+  const cancelBatch = () => {
+    controllerRef.current?.abort();
+  };
+
+  const reset = () => {
+    setItems([]);
+    setBatchId(null);
+    setNotice("");
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-semibold text-white">Batch Audit</h1>
+            <p className="text-zinc-500">Audit every variant of a campaign and see them ranked</p>
+          </div>
+          <div className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+            subscription.auditsRemaining <= 1
+              ? 'bg-red-500/10 text-red-400'
+              : 'bg-green-500/10 text-green-400'
+          }`}>
+            {subscription.auditsPerMonth === 999999
+              ? '∞ audits'
+              : `${subscription.auditsRemaining} audits left`
+            }
+          </div>
+        </div>
+
+        <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-8 space-y-6">
+          {/* Drop Zone */}
+          {!running && !finished && (
+            <div
+              className={`border-2 border-dashed rounded-xl p-10 cursor-pointer transition-all text-center ${
+                dragging ? 'border-white/40 bg-white/[0.05]' : 'border-white/10 bg-white/[0.03] hover:border-white/20'
+              }`}
+              onClick={() => document.getElementById("batch-upload")?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                addFiles(e.dataTransfer.files);
+              }}
+            >
+              <input
+                id="batch-upload"
+                type="file"
+                hidden
+                multiple
+                accept="video/*"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              <div className="w-14 h-14 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4">
+                <i className="fa-solid fa-layer-group text-2xl text-white"></i>
+              </div>
+              <h4 className="text-white text-lg font-medium mb-1">Drop your variants here</h4>
+              <p className="text-zinc-500 text-sm">Up to {MAX_BATCH_FILES} videos • {MAX_SIZE_MB}MB each</p>
+            </div>
+          )}
+
+          {notice && <p className="text-yellow-400 text-sm">{notice}</p>}
+
+          {/* Options */}
+          {items.length > 0 && !running && !finished && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {Object.values(PLATFORM_PROFILES)
+                  .filter((profile) => profile.id !== 'custom')
+                  .map((profile) => (
+                    <button
+                      key={profile.id}
+                      onClick={() => setProfileId(profile.id)}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                        profileId === profile.id
+                          ? 'bg-white text-black font-medium'
+                          : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {profile.label}
+                    </button>
+                  ))}
+              </div>
+
+              {canUseDeepAnalysis && (
+                <label className="flex items-center gap-3 text-sm text-zinc-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useDeepAnalysis}
+                    onChange={(e) => setUseDeepAnalysis(e.target.checked)}
+                  />
+                  Multi-Model Deep Analysis for every video
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Queue */}
+          {items.length > 0 && (
+            <div className="bg-white/[0.02] border border-white/5 rounded-xl overflow-hidden">
+              <div className="p-4 border-b border-white/5 flex justify-between items-center">
+                <h2 className="text-sm font-medium text-white">Queue</h2>
+                <span className="text-xs text-zinc-600">{doneCount}/{items.length} done</span>
+              </div>
+              <div className="divide-y divide-white/5">
+                {items.map((item) => (
+                  <QueueItem
+                    key={item.id}
+                    item={item}
+                    onRemove={!running && item.status !== "done" ? () => setItems(items.filter((i) => i.id !== item.id)) : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Quota Pre-check */}
+          {overQuota && !running && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
+              <p className="text-red-400 text-sm">
+                <i className="fa-solid fa-lock mr-2"></i>
+                {toRun.length} videos need {toRun.length} audits, but you have {subscription.auditsRemaining} left this month.
+                Remove {toRun.length - subscription.auditsRemaining} or{" "}
+                <Link to="/billing" className="underline">upgrade your plan</Link>.
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3">
+            {running ? (
+              <button
+                onClick={cancelBatch}
+                className="flex-1 bg-white/5 border border-white/10 text-white font-medium py-4 rounded-xl hover:bg-white/10 transition-colors"
+              >
+                <i className="fa-solid fa-xmark mr-2"></i>
+                Cancel Batch
+              </button>
+            ) : (
+              <>
+                {finished && doneCount > 0 && batchId && (
+                  <Link
+                    to={`/batch/${batchId}`}
+                    className="flex-1 bg-white text-black font-medium py-4 rounded-xl hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
+                  >
+                    <i className="fa-solid fa-ranking-star"></i>
+                    View Ranking
+                  </Link>
+                )}
+                {toRun.length > 0 && (
+                  <motion.button
+                    whileTap={{ scale: 0.98 }}
+                    onClick={startBatch}
+                    disabled={overQuota}
+                    className={`flex-1 font-medium py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-opacity flex items-center justify-center gap-2 ${
+                      finished ? 'bg-white/5 border border-white/10 text-white' : 'bg-white text-black hover:opacity-90'
+                    }`}
+                  >
+                    <i className={`fa-solid ${finished ? 'fa-rotate-right' : 'fa-play'}`}></i>
+                    {finished ? `Retry ${toRun.length} Failed` : `Audit ${toRun.length} Videos`}
+                  </motion.button>
+                )}
+                {finished && (
+                  <button
+                    onClick={reset}
+                    className="px-5 bg-white/5 border border-white/10 text-white font-medium py-4 rounded-xl hover:bg-white/10 transition-colors"
+                  >
+                    New Batch
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default BatchAudit;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Link, useParams } from "react-router-dom";
+import { useAuth, supabase } from "../context/AuthContext";
+import { AuditRecord } from "../types";
+import DashboardLayout from "../components/DashboardLayout";
+
+// ==========================================
+// RANKING
+// ==========================================
+const CATEGORY_COLUMNS = [
+  { key: "visual", label: "Visual" },
+  { key: "audio", label: "Audio" },
+  { key: "copy", label: "Copy" },
+  { key: "captions", label: "Captions" },
+] as const;
+
+/**
+ * Best first: overall score, then technical score to break ties
+ */
+const rankAudits = (audits: AuditRecord[]) =>
+  [...audits].sort((a, b) =>
+    b.overall_score - a.overall_score ||
+    (b.technical_score?.score ?? 0) - (a.technical_score?.score ?? 0)
+  );
+
+const scoreColor = (score: number, max: number) => {
+  if (score >= max * 0.8) return "text-green-400";
+  if (score >= max * 0.5) return "text-amber-400";
+  return "text-red-400";
+};
+
+// ==========================================
+// BATCH SUMMARY PAGE
+// ==========================================
+const BatchSummary = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [audits, setAudits] = useState<AuditRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadBatch();
+  }, [id, user]);
+
+  const loadBatch = async () => {
+    if (!supabase || !user || !id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("audits")
+        .select("*")
+        .eq("user_id", user.id)
+        .eq("batch_id", id);
+
+      if (error) throw error;
+      setAudits(rankAudits(data || []));
+    } catch (e) {
+      console.error("Failed to load batch:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const best = audits[0];
+  const worst = audits[audits.length - 1];
+  const average = audits.length
+    ? (audits.reduce((sum, audit) => sum + audit.overall_score, 0) / audits.length).toFixed(1)
+    : "-";
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-2xl font-semibold text-white">Batch Ranking</h1>
+            <p className="text-zinc-500">
+              {audits.length} variant{audits.length === 1 ? "" : "s"} ranked by overall score
+            </p>
+          </div>
+          <Link
+            to="/audit/batch"
+            className="bg-white text-black px-5 py-2.5 rounded-lg font-medium hover:bg-zinc-200 transition-colors flex items-center gap-2"
+          >
+            <i className="fa-solid fa-layer-group text-sm"></i>
+            New Batch
+          </Link>
+        </div>
+
+        {loading ? (
+          <div className="p-12 text-center">
+            <div className="w-6 h-6 border-2 border-zinc-800 border-t-zinc-500 rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : audits.length === 0 ? (
+          <div className="p-12 text-center bg-white/[0.02] border border-white/5 rounded-xl">
+            <h3 className="text-white font-medium mb-2">No audits in this batch</h3>
+            <p className="text-zinc-500 text-sm">It may still be running, or every video failed.</p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+              <div className="bg-white/[0.02] border border-white/5 rounded-xl p-5">
+                <p className="text-zinc-500 text-sm mb-2">Winner</p>
+                <p className="text-white font-medium truncate">{best.video_name}</p>
+                <p className="text-green-400 text-sm">{best.overall_score}/10</p>
+              </div>
+              <div className="bg-white/[0.02] border border-white/5 rounded-xl p-5">
+                <p className="text-zinc-500 text-sm mb-2">Average</p>
+                <p className="text-2xl font-semibold text-white">{average}/10</p>
+              </div>
+              <div className="bg-white/[0.02] border border-white/5 rounded-xl p-5">
+                <p className="text-zinc-500 text-sm mb-2">Spread</p>
+                <p className="text-2xl font-semibold text-white">
+                  {(best.overall_score - worst.overall_score).toFixed(1)}
+                </p>
+                <p className="text-zinc-600 text-xs mt-1">Points between best and worst</p>
+              </div>
+            </div>
+
+            {/* Ranking Table */}
+            <div className="bg-white/[0.02] border border-white/5 rounded-xl overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-zinc-500 text-xs uppercase tracking-wider border-b border-white/5">
+                    <th className="p-4 text-left">#</th>
+                    <th className="p-4 text-left">Video</th>
+                    <th className="p-4 text-right">Overall</th>
+                    {CATEGORY_COLUMNS.map((column) => (
+                      <th key={column.key} className="p-4 text-right">{column.label}</th>
+                    ))}
+                    <th className="p-4 text-right">Technical</th>
+                    <th className="p-4 text-right">Fails</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {audits.map((audit, idx) => (
+                    <motion.tr
+                      key={audit.id}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: idx * 0.03 }}
+                      className="hover:bg-white/[0.02]"
+                    >
+                      <td className="p-4 text-zinc-500 font-mono">
+                        {idx === 0 ? <i className="fa-solid fa-trophy text-amber-400"></i> : idx + 1}
+                      </td>
+                      <td className="p-4 max-w-xs">
+                        <Link to={`/audit/${audit.id}`} className="text-white font-medium hover:underline truncate block">
+                          {audit.video_name}
+                        </Link>
+                      </td>
+                      <td className={`p-4 text-right font-medium ${scoreColor(audit.overall_score, 10)}`}>
+                        {audit.overall_score}/10
+                      </td>
+                      {CATEGORY_COLUMNS.map((column) => {
+                        const score = audit.categories?.[column.key]?.score ?? 0;
+                        return (
+                          <td key={column.key} className={`p-4 text-right font-mono ${scoreColor(score, 100)}`}>
+                            {score}%
+                          </td>
+                        );
+                      })}
+                      <td className="p-4 text-right font-mono text-zinc-300">
+                        {audit.technical_score ? audit.technical_score.score : "-"}
+                      </td>
+                      <td className="p-4 text-right font-mono text-zinc-300">
+                        {(audit.checks || []).filter((check) => check.status === "FAIL").length}
+                      </td>
+                    </motion.tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default BatchSummary;
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { useAuth, supabase } from "../context/AuthContext";
+import { useSubscription } from "../context/SubscriptionContext";
+import { AnalysisData, PlatformProfileId } from "../types";
+import DashboardLayout from "../components/DashboardLayout";
+import { isAbortError } from "../utils/compression";
+import { runAudit, createLimiter, AuditStage } from "../utils/auditRunner";
+import { getAnalysisProvider, supportsWorkerFeature, ComparisonVariant } from "../utils/analysisProviders";
+import { JOB_STATUS_LABELS } from "../utils/auditJobs";
+import { useScoringConfig } from "../utils/technicalAnalysis";
+import { PLATFORM_PROFILES, DEFAULT_PROFILE_ID } from "../utils/platforms";
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 4;
+const MAX_SIZE_MB = 500;
+
+// The head-to-head judgement needs the worker's compare endpoint
+const COMPARE_SUPPORTED = supportsWorkerFeature("compare");
+
+// ==========================================
+// TYPES
+// ==========================================
+interface VariantState {
+  file: File;
+  status: 'pending' | AuditStage | 'done' | 'failed';
+  /** Null while the analysis has no real percentage to show */
+  progress: number | null;
+  error?: string;
+  /** Kept once audited, so retrying the comparison doesn't charge for it again */
+  auditId?: string;
+  analysis?: AnalysisData;
+}
+
+// ==========================================
+// COMPARE AUDIT PAGE
+// ==========================================
+const CompareAudit = () => {
+  const { user, refreshStats } = useAuth();
+  const subscription = useSubscription();
+  const navigate = useNavigate();
+
+  const [variants, setVariants] = useState<VariantState[]>([]);
+  const [profileId, setProfileId] = useState<PlatformProfileId>(DEFAULT_PROFILE_ID);
+  const scoringConfig = useScoringConfig(user);
+  const [running, setRunning] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop the run when leaving the page
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateVariant = (index: number, patch: Partial<VariantState>) => {
+    setVariants((current) => current.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const videos = Array.from(files).filter((file) => file.type.startsWith("video/") && file.size <= MAX_SIZE_MB * 1024 * 1024);
+    const added = videos.slice(0, MAX_VARIANTS - variants.length).map((file): VariantState => ({ file, status: "pending", progress: 0 }));
+    setVariants([...variants, ...added]);
+    setErrorMessage(videos.length < files.length ? `Only videos up to ${MAX_SIZE_MB}MB can be compared.` : "");
+  };
+
+  // Variants audited on an earlier try are reused, not charged again
+  const auditsNeeded = variants.filter((variant) => !variant.auditId).length;
+  const overQuota = auditsNeeded > subscription.auditsRemaining;
+  const canStart = COMPARE_SUPPORTED && !running && variants.length >= MIN_VARIANTS && !overQuota;
+
+  const runComparison = async () => {
+    if (!user || !canStart) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setErrorMessage("");
+
+    // Each variant gets its own audit first; local steps go one at a time
+    const auditSlot = createLimiter(2);
+    const localSlot = createLimiter(1);
+    const audited = await Promise.all(variants.map((variant, i) => auditSlot(async (): Promise<ComparisonVariant | null> => {
+      if (variant.auditId && variant.analysis) {
+        return { auditId: variant.auditId, name: variant.file.name, analysis: variant.analysis };
+      }
+      try {
+        const { auditId, data } = await runAudit({
+          userId: user.id,
+          licenseKey: user.email || "",
+          profile: PLATFORM_PROFILES[profileId],
+          scoringConfig,
+          deepAnalysis: false,
+          uploadFrames: false,
+          file: variant.file,
+          signal: controller.signal,
+          localSlot,
+          onStage: (stage) => updateVariant(i, { status: stage, progress: 0, error: undefined }),
+          onProgress: (progress) => updateVariant(i, { progress }),
+        });
+        updateVariant(i, { status: "done", progress: 100, auditId: auditId ?? undefined, analysis: data });
+        return auditId ? { auditId, name: variant.file.name, analysis: data } : null;
+      } catch (e: any) {
+        if (!isAbortError(e)) console.error(`Audit of ${variant.file.name} failed:`, e);
+        updateVariant(i, { status: "failed", error: isAbortError(e) ? "Cancelled" : e.message || "Analysis failed" });
+        return null;
+      }
+    })));
+    if (audited.some((variant, i) => variant && !variants[i].auditId)) refreshStats();
+
+    const compared = audited.filter((variant): variant is ComparisonVariant => variant !== null);
+    if (controller.signal.aborted || compared.length < MIN_VARIANTS || !supabase) {
+      setErrorMessage(
+        controller.signal.aborted
+          ? "Comparison cancelled."
+          : `Only ${compared.length} of ${variants.length} videos were audited - at least ${MIN_VARIANTS} are needed to compare.`
+      );
+      setRunning(false);
+      controllerRef.current = null;
+      return;
+    }
+
+    // Then the head-to-head judgement across the audits
+    setComparing(true);
+    try {
+      console.log(`⚖️ Comparing ${compared.length} variants`);
+      const judgement = await getAnalysisProvider("standard").compare({
+        variants: compared,
+        licenseKey: user.email || "",
+        signal: controller.signal,
+      });
+      controller.signal.throwIfAborted();
+
+      const { data: comparison, error } = await supabase
+        .from("comparisons")
+        .insert({
+          user_id: user.id,
+          audit_ids: compared.map((variant) => variant.auditId),
+          winner_audit_id: judgement.winner,
+          reasons: judgement.reasons,
+          hook: judgement.hook,
+          cta: judgement.cta,
+          summary: judgement.summary,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      navigate(`/compare/${comparison.id}`);
+    } catch (e: any) {
+      if (isAbortError(e)) {
+        setErrorMessage("Comparison cancelled. The individual audits were saved.");
+        return;
+      }
+      console.error("Comparison failed:", e);
+      setErrorMessage(`${e.message || "Comparison failed"}. The individual audits were saved.`);
+    } finally {
+      setComparing(false);
+      setRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-semibold text-white">A/B Compare</h1>
+          <p className="text-zinc-500">
+            Audit {MIN_VARIANTS}-{MAX_VARIANTS} variants and get a head-to-head verdict on which one to run
+          </p>
+        </div>
+
+        {!COMPARE_SUPPORTED ? (
+          <div className="p-12 text-center bg-white/[0.02] border border-white/5 rounded-xl">
+            <h3 className="text-white font-medium mb-2">A/B comparisons aren't available yet</h3>
+            <p className="text-zinc-500 text-sm">
+              The analysis service doesn't support head-to-head comparisons on this deployment.{" "}
+              <Link to="/audit/batch" className="underline">Batch audits</Link> can still rank several variants by score.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-8 space-y-6">
+            {/* Variants */}
+            <div className="grid grid-cols-2 gap-3">
+              {variants.map((variant, i) => (
+                <div key={i} className="p-4 bg-white/[0.03] border border-white/10 rounded-xl">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-zinc-500 text-xs mb-1">Variant {String.fromCharCode(65 + i)}</p>
+                      <p className="text-white text-sm font-medium truncate">{variant.file.name}</p>
+                    </div>
+                    {!running && (
+                      <button
+                        onClick={() => setVariants(variants.filter((_, j) => j !== i))}
+                        className="text-zinc-600 hover:text-red-400 transition-colors"
+                        title="Remove"
+                      >
+                        <i className="fa-solid fa-xmark text-sm"></i>
+                      </button>
+                    )}
+                  </div>
+                  <p className={`text-xs mt-2 ${variant.status === "failed" ? "text-red-400" : "text-zinc-500"}`}>
+                    {variant.status === "pending" && (running ? "Waiting..." : `${(variant.file.size / 1024 / 1024).toFixed(1)}MB`)}
+                    {(variant.status === "compressing" || variant.status === "uploading" || variant.status === "analyzing") &&
+                      `${JOB_STATUS_LABELS[variant.status]}${variant.progress === null ? "..." : ` • ${variant.progress}%`}`}
+                    {variant.status === "done" && <><i className="fa-solid fa-check text-green-400 mr-1"></i>Audited</>}
+                    {variant.status === "failed" && (variant.error || "Failed")}
+                  </p>
+                </div>
+              ))}
+
+              {!running && variants.length < MAX_VARIANTS && (
+                <div
+                  className="p-4 border-2 border-dashed border-white/10 rounded-xl cursor-pointer hover:border-white/20 transition-all flex flex-col items-center justify-center text-center min-h-[96px]"
+                  onClick={() => document.getElementById("compare-upload")?.click()}
+                >
+                  <input
+                    id="compare-upload"
+                    type="file"
+                    hidden
+                    multiple
+                    accept="video/*"
+                    onChange={(e) => {
+                      addFiles(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                  <i className="fa-solid fa-plus text-white mb-1"></i>
+                  <span className="text-zinc-500 text-xs">Add variant</span>
+                </div>
+              )}
+            </div>
+
+            {/* Placement */}
+            {!running && variants.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.values(PLATFORM_PROFILES)
+                  .filter((profile) => profile.id !== 'custom')
+                  .map((profile) => (
+                    <button
+                      key={profile.id}
+                      onClick={() => setProfileId(profile.id)}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                        profileId === profile.id
+                          ? 'bg-white text-black font-medium'
+                          : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {profile.label}
+                    </button>
+                  ))}
+              </div>
+            )}
+
+            {/* Quota Pre-check */}
+            {overQuota && !running && (
+              <p className="text-red-400 text-sm">
+                <i className="fa-solid fa-lock mr-2"></i>
+                Comparing these videos uses {auditsNeeded} more audits, but you have {subscription.auditsRemaining} left.{" "}
+                <Link to="/billing" className="underline">Upgrade your plan</Link>
+              </p>
+            )}
+
+            {errorMessage && <p className="text-red-400 text-sm">{errorMessage}</p>}
+
+            {running ? (
+              <button
+                onClick={() => controllerRef.current?.abort()}
+                disabled={comparing}
+                className="w-full bg-white/5 border border-white/10 text-white font-medium py-4 rounded-xl hover:bg-white/10 transition-colors disabled:opacity-50"
+              >
+                {comparing ? (
+                  <><i className="fa-solid fa-scale-balanced fa-beat mr-2"></i>Comparing variants...</>
+                ) : (
+                  <><i className="fa-solid fa-xmark mr-2"></i>Cancel</>
+                )}
+              </button>
+            ) : (
+              <button
+                onClick={runComparison}
+                disabled={!canStart}
+                className="w-full bg-white text-black font-medium py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
+              >
+                <i className="fa-solid fa-scale-balanced"></i>
+                {variants.length < MIN_VARIANTS ? `Add at least ${MIN_VARIANTS} videos` : `Compare ${variants.length} Variants`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CompareAudit;
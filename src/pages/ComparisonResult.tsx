@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import { Link, useParams } from "react-router-dom";
+import { useAuth, supabase } from "../context/AuthContext";
+import { AuditRecord, CheckItem, ComparisonPick, ComparisonRecord } from "../types";
+import DashboardLayout from "../components/DashboardLayout";
+
+// ==========================================
+// HELPERS
+// ==========================================
+const CATEGORY_ROWS = [
+  { key: "visual", label: "Visual" },
+  { key: "audio", label: "Audio" },
+  { key: "copy", label: "Copy" },
+  { key: "captions", label: "Captions" },
+] as const;
+
+const variantLetter = (index: number) => String.fromCharCode(65 + index);
+
+const scoreColor = (score: number, max: number) => {
+  if (score >= max * 0.8) return "text-green-400";
+  if (score >= max * 0.5) return "text-amber-400";
+  return "text-red-400";
+};
+
+/**
+ * Every check label across the variants, in first-seen order
+ */
+const collectCheckLabels = (audits: AuditRecord[]) =>
+  Array.from(new Set(audits.flatMap((audit) => (audit.checks || []).map((check) => check.label))));
+
+const CheckStatusIcon = ({ check }: { check?: CheckItem }) => {
+  if (!check) return <span className="text-zinc-700">-</span>;
+  if (check.status === "PASS") return <i className="fa-solid fa-circle-check text-green-500" title={check.details}></i>;
+  if (check.status === "WARN") return <i className="fa-solid fa-triangle-exclamation text-yellow-500" title={check.details}></i>;
+  return <i className="fa-solid fa-circle-xmark text-red-500" title={check.details}></i>;
+};
+
+// ==========================================
+// PICK CARD COMPONENT (Hook / CTA)
+// ==========================================
+const PickCard = ({ title, icon, pick, audits }: { title: string; icon: string; pick: ComparisonPick; audits: AuditRecord[] }) => {
+  const index = audits.findIndex((audit) => audit.id === pick.winner);
+  return (
+    <div className="bg-white/[0.02] border border-white/5 rounded-xl p-5">
+      <p className="text-zinc-500 text-sm mb-2">
+        <i className={`fa-solid ${icon} mr-2`}></i>
+        {title}
+      </p>
+      <p className="text-white font-medium truncate mb-2">
+        {index >= 0 ? `${variantLetter(index)} - ${audits[index].video_name}` : "Unknown variant"}
+      </p>
+      <p className="text-zinc-400 text-sm leading-relaxed">{pick.explanation}</p>
+    </div>
+  );
+};
+
+// ==========================================
+// COMPARISON RESULT PAGE
+// ==========================================
+const ComparisonResult = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [comparison, setComparison] = useState<ComparisonRecord | null>(null);
+  const [audits, setAudits] = useState<AuditRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadComparison();
+  }, [id, user]);
+
+  const loadComparison = async () => {
+    if (!supabase || !user || !id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("comparisons")
+        .select("*")
+        .eq("id", id)
+        .eq("user_id", user.id)
+        .single();
+
+      if (error) throw error;
+
+      const { data: auditRows, error: auditsError } = await supabase
+        .from("audits")
+        .select("*")
+        .in("id", data.audit_ids);
+
+      if (auditsError) throw auditsError;
+
+      // Keep the variant order (A, B, ...) the comparison was made in
+      const byId = new Map((auditRows || []).map((audit: AuditRecord) => [audit.id, audit]));
+      setAudits(data.audit_ids.map((auditId: string) => byId.get(auditId)).filter(Boolean) as AuditRecord[]);
+      setComparison(data);
+    } catch (e) {
+      console.error("Failed to load comparison:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const winnerIndex = comparison ? audits.findIndex((audit) => audit.id === comparison.winner_audit_id) : -1;
+  const winner = winnerIndex >= 0 ? audits[winnerIndex] : null;
+  const checkLabels = collectCheckLabels(audits);
+  const gridStyle = { gridTemplateColumns: `160px repeat(${audits.length}, minmax(0, 1fr))` };
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-2xl font-semibold text-white">A/B Comparison</h1>
+            <p className="text-zinc-500">
+              {audits.length} variants head-to-head
+              {comparison && ` • ${new Date(comparison.created_at).toLocaleDateString()}`}
+            </p>
+          </div>
+          <Link
+            to="/compare/new"
+            className="bg-white text-black px-5 py-2.5 rounded-lg font-medium hover:bg-zinc-200 transition-colors flex items-center gap-2"
+          >
+            <i className="fa-solid fa-code-compare text-sm"></i>
+            New Comparison
+          </Link>
+        </div>
+
+        {loading ? (
+          <div className="p-12 text-center">
+            <div className="w-6 h-6 border-2 border-zinc-800 border-t-zinc-500 rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : !comparison || audits.length === 0 ? (
+          <div className="p-12 text-center bg-white/[0.02] border border-white/5 rounded-xl">
+            <h3 className="text-white font-medium mb-2">Comparison not found</h3>
+            <p className="text-zinc-500 text-sm">It may have been deleted along with its audits.</p>
+          </div>
+        ) : (
+          <>
+            {/* Winner */}
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-green-500/5 border border-green-500/20 rounded-2xl p-6 mb-6"
+            >
+              <p className="text-green-400 text-sm mb-2">
+                <i className="fa-solid fa-trophy mr-2"></i>
+                Recommended winner
+              </p>
+              <h2 className="text-xl font-semibold text-white mb-4 truncate">
+                {winner ? `${variantLetter(winnerIndex)} - ${winner.video_name}` : "Unknown variant"}
+              </h2>
+              <ul className="space-y-2 mb-4">
+                {comparison.reasons.map((reason, i) => (
+                  <li key={i} className="text-zinc-300 text-sm flex gap-2">
+                    <i className="fa-solid fa-check text-green-400 mt-1"></i>
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+              {comparison.summary && <p className="text-zinc-400 text-sm leading-relaxed">{comparison.summary}</p>}
+            </motion.div>
+
+            {/* Hook & CTA */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+              <PickCard title="Stronger hook" icon="fa-bolt" pick={comparison.hook} audits={audits} />
+              <PickCard title="Stronger CTA" icon="fa-hand-pointer" pick={comparison.cta} audits={audits} />
+            </div>
+
+            {/* Side by Side */}
+            <div className="bg-white/[0.02] border border-white/5 rounded-xl overflow-x-auto">
+              <div className="min-w-[640px] divide-y divide-white/5 text-sm">
+                <div className="grid gap-4 p-4" style={gridStyle}>
+                  <div></div>
+                  {audits.map((audit, i) => (
+                    <div key={audit.id} className="min-w-0">
+                      <p className="text-zinc-500 text-xs mb-1">
+                        Variant {variantLetter(i)}
+                        {audit.id === comparison.winner_audit_id && <i className="fa-solid fa-trophy text-amber-400 ml-2"></i>}
+                      </p>
+                      <Link to={`/audit/${audit.id}`} className="text-white font-medium hover:underline truncate block">
+                        {audit.video_name}
+                      </Link>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid gap-4 p-4" style={gridStyle}>
+                  <p className="text-zinc-500">Overall</p>
+                  {audits.map((audit) => (
+                    <p key={audit.id} className={`text-lg font-semibold ${scoreColor(audit.overall_score, 10)}`}>
+                      {audit.overall_score}/10
+                    </p>
+                  ))}
+                </div>
+
+                {CATEGORY_ROWS.map((row) => (
+                  <div key={row.key} className="grid gap-4 p-4" style={gridStyle}>
+                    <p className="text-zinc-500">{row.label}</p>
+                    {audits.map((audit) => {
+                      const category = audit.categories?.[row.key];
+                      return (
+                        <div key={audit.id} className="min-w-0">
+                          <p className={`font-mono mb-1 ${scoreColor(category?.score ?? 0, 100)}`}>{category?.score ?? 0}%</p>
+                          <p className="text-zinc-500 text-xs leading-relaxed line-clamp-3">
+                            {category?.feedback || "No feedback available."}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+
+                {checkLabels.map((label) => (
+                  <div key={label} className="grid gap-4 px-4 py-3 items-center" style={gridStyle}>
+                    <p className="text-zinc-400 truncate" title={label}>{label}</p>
+                    {audits.map((audit) => (
+                      <div key={audit.id}>
+                        <CheckStatusIcon check={(audit.checks || []).find((check) => check.label === label)} />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ComparisonResult;
@@ -2,8 +2,9 @@ import React, { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth, supabase } from "../context/AuthContext";
-import { AuditRecord } from "../types";
+import { AuditRecord, AuditJob } from "../types";
 import DashboardLayout from "../components/DashboardLayout";
+import { JOB_STATUS_LABELS, isJobActive, isJobInterrupted, canResumeJob } from "../utils/auditJobs";
 
 // ==========================================
 // STAT CARD COMPONENT
@@ -50,6 +51,60 @@ const ScoreBadge = ({ score }: { score: number }) => {
   );
 };
 
+// ==========================================
+// JOB ROW COMPONENT
+// ==========================================
+const JobRow = ({ job, onDismiss }: { job: AuditJob; onDismiss: (id: string) => void }) => {
+  const interrupted = isJobInterrupted(job);
+  const resumable = canResumeJob(job);
+
+  return (
+    <div className="p-4 flex items-center gap-4">
+      <div className="w-10 h-10 bg-white/5 rounded-lg flex items-center justify-center flex-shrink-0">
+        <i className={`fa-solid ${
+          job.status === "failed" ? "fa-triangle-exclamation text-red-400" :
+          interrupted ? "fa-pause text-amber-400" :
+          "fa-spinner fa-spin text-zinc-500"
+        } text-sm`}></i>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-white font-medium truncate text-sm">{job.video_name}</p>
+        <p className={`text-xs ${job.status === "failed" ? "text-red-400" : interrupted ? "text-amber-400" : "text-zinc-600"}`}>
+          {job.status === "failed"
+            ? `Failed${job.error ? ` - ${job.error}` : ""}`
+            : interrupted
+            ? `Interrupted while ${JOB_STATUS_LABELS[job.status].toLowerCase()}`
+            : `${JOB_STATUS_LABELS[job.status]}${job.progress > 0 ? ` • ${job.progress}%` : "..."}`}
+        </p>
+        {!resumable && (
+          <div className="h-1 bg-[#222] rounded-full overflow-hidden mt-2 max-w-xs">
+            <div className="h-full bg-white transition-all" style={{ width: `${job.progress}%` }} />
+          </div>
+        )}
+      </div>
+
+      {resumable && (
+        <div className="flex items-center gap-1">
+          <Link
+            to={`/audit/new?job=${job.id}`}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-white text-xs font-medium hover:bg-white/10 transition-colors"
+          >
+            {job.status === "failed" ? "Retry" : "Resume"}
+          </Link>
+          <button
+            onClick={() => onDismiss(job.id)}
+            className="p-2 text-zinc-600 hover:text-red-400 transition-colors"
+            title="Dismiss"
+          >
+            <i className="fa-solid fa-xmark text-sm"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ==========================================
 // DASHBOARD PAGE
 // ==========================================
@@ -58,12 +113,58 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const [audits, setAudits] = useState<AuditRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [jobs, setJobs] = useState<AuditJob[]>([]);
 
   // Load recent audits
   useEffect(() => {
     loadAudits();
   }, [user]);
 
+  // Load unfinished jobs, and keep polling while one is running in another tab
+  useEffect(() => {
+    loadJobs();
+  }, [user]);
+
+  const hasRunningJobs = jobs.some((job) => isJobActive(job) && !isJobInterrupted(job));
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const timer = setInterval(() => {
+      loadJobs();
+      loadAudits();
+    }, 5000);
+    return () => clearInterval(timer);
+  }, [hasRunningJobs]);
+
+  const loadJobs = async () => {
+    if (!supabase || !user) return;
+
+    const { data, error } = await supabase
+      .from('audit_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .neq('status', 'done')
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error("Failed to load audit jobs:", error);
+      return;
+    }
+    setJobs(data || []);
+  };
+
+  const dismissJob = async (id: string) => {
+    if (!supabase) return;
+
+    try {
+      const { error } = await supabase.from('audit_jobs').delete().eq('id', id);
+      if (error) throw error;
+      setJobs(jobs.filter(j => j.id !== id));
+    } catch (e) {
+      console.error("Failed to dismiss job:", e);
+    }
+  };
+
   const loadAudits = async () => {
     if (!supabase || !user) return;
 
@@ -152,6 +253,20 @@ const Dashboard = () => {
           />
         </div>
 
+        {/* In-flight Jobs */}
+        {jobs.length > 0 && (
+          <div className="bg-white/[0.02] border border-white/5 rounded-xl overflow-hidden mb-6">
+            <div className="p-5 border-b border-white/5">
+              <h2 className="text-base font-medium text-white">In Progress</h2>
+            </div>
+            <div className="divide-y divide-white/5">
+              {jobs.map((job) => (
+                <JobRow key={job.id} job={job} onDismiss={dismissJob} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Audits */}
         <div className="bg-white/[0.02] border border-white/5 rounded-xl overflow-hidden">
           <div className="p-5 border-b border-white/5 flex justify-between items-center">
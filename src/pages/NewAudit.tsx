@@ -1,222 +1,126 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { motion } from "framer-motion";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useAuth, supabase } from "../context/AuthContext";
 import { useSubscription } from "../context/SubscriptionContext";
-import { AnalysisData, UploadStatus, DEFAULT_ANALYSIS, TechnicalAnalysis } from "../types";
+import { UploadStatus, AuditJob, AspectRatioName, PlatformProfile, PlatformProfileId } from "../types";
 import DashboardLayout from "../components/DashboardLayout";
-import { compressVideo, isFFmpegSupported, CompressionResult } from "../utils/compression";
+import { isFFmpegSupported, getFFmpegCoreType, getCompressionMethods, isAbortError, CompressionResult } from "../utils/compression";
 import { openCheckout } from "../utils/lemonsqueezy";
-import { runTechnicalAnalysis, calculateTechnicalScore, countIssues } from "../utils/technicalAnalysis";
+import { hashFile, getCachedCompression } from "../utils/contentHash";
+import { runAudit, AuditStage } from "../utils/auditRunner";
+import { JOB_STATUS_LABELS } from "../utils/auditJobs";
+import { supportsWorkerFeature } from "../utils/analysisProviders";
+import { PartialAnalysis, EMPTY_PARTIAL_ANALYSIS, applyStreamEvent } from "../utils/analysisStream";
+import {
+  measureVideo,
+  evaluateTechnicalAnalysis,
+  VideoMeasurements,
+  calculateTechnicalScore,
+  useScoringConfig,
+  countIssues,
+  getTechnicalChecks,
+} from "../utils/technicalAnalysis";
+import { PLATFORM_PROFILES, DEFAULT_PROFILE_ID } from "../utils/platforms";
 
 // ==========================================
-// CONFIGURATION
+// PROGRESS BAR COMPONENT
 // ==========================================
-const STANDARD_WORKER_URL = "https://damp-wind-775f.rusdumitru122.workers.dev/";
-const MULTIMODEL_WORKER_URL = "https://viralaudit-6specialist.rusdumitru122.workers.dev/"; // 6-specialist deep analysis
-
-const BRUTAL_SYSTEM_PROMPT = `
-You are a brutally honest video ad expert who has watched 10,000+ ads. You've seen it all. You don't sugarcoat anything.
-
-## HOW TO WRITE YOUR FEEDBACK:
-- Be **BRUTAL**. If the ad sucks, say it sucks. Don't be nice.
-- Use **simple words** a 5th grader could understand. No jargon.
-- Be **specific with timestamps**. Say "at 0:05" so they know exactly where the problem is.
-- Give **exact fixes**. Don't just say what's wrong - tell them exactly how to fix it.
-- Keep sentences **short and punchy**.
-
-## SIMPLE WORDS TO USE:
-- Say "boring" not "lacks engagement"
-- Say "confusing" not "unclear value proposition"  
-- Say "too slow" not "pacing issues"
-- Say "people will scroll away" not "retention risk"
-- Say "grab attention" not "pattern interrupt"
-- Say "what's in it for me" not "value proposition"
-
-## BE HARSH - EXAMPLES:
-- ❌ WEAK: "The opening could be improved"
-- ✅ BRUTAL: "The first 3 seconds are a waste. You show your logo while everyone scrolls away. Nobody cares about your logo."
-
-- ❌ WEAK: "Consider adding more energy"
-- ✅ BRUTAL: "This is boring. At 0:08-0:15, nothing happens for 7 seconds. That's death on social media."
-
-- ❌ WEAK: "The message could be clearer"
-- ✅ BRUTAL: "I watched the whole thing and I still don't know what you're selling or why I should care."
-
-## SCORING (BE HARSH - MOST ADS ARE BAD):
-- 9-10: Amazing. Top 1%. Almost never give this.
-- 7-8: Good with small problems. Top 20%.
-- 5-6: Average. Needs real work.
-- 3-4: Bad. Multiple big problems.
-- 1-2: Terrible. Start over completely.
-
-**Most ads deserve a 4-6. Stop being generous. If you give above a 7, it better be genuinely good.**
-
-## OUTPUT FORMAT:
-Return ONLY valid JSON. No markdown. No code blocks.
-
-{
-  "overallScore": <number 1-10, be harsh - most ads are 4-6>,
-  "verdict": "<One brutal sentence. Hit them with the truth. Examples: 'You buried the only good part at 0:18 where nobody will ever see it.' or 'This ad is 30 seconds of nothing happening.' or 'I was bored by second 2 and so will everyone else.'>",
-  "categories": {
-    "visual": {
-      "score": <0-100>,
-      "feedback": "<Be brutal. What looks bad? What's boring? What's confusing? Use timestamps. Example: 'At 0:02, your text is tiny and impossible to read on a phone. At 0:08-0:12, it's the same boring shot for 4 seconds. People are gone by then.'>",
-      "fix": "<Exact fix with timestamps. Example: 'At 0:02, make the text 3x bigger. At 0:08, cut to a new scene. Never show the same thing for more than 2 seconds.'>"
-    },
-    "audio": {
-      "score": <0-100>,
-      "feedback": "<Be brutal about what you hear. Example: 'The first 3 seconds are silent - that's a disaster. At 0:10, the music is so loud I can't hear what you're saying. At 0:20, the voice sounds bored and boring.'>",
-      "fix": "<Exact fix. Example: 'Add a sound effect at 0:00 to grab attention. Lower the music 50% when someone talks. Re-record the voiceover with more energy.'>"
-    },
-    "copy": {
-      "score": <0-100>,
-      "feedback": "<Be brutal about the words. Example: 'You say premium quality but that means nothing. You list 5 features but never tell me why I should care. Your CTA is just Learn More - that's the laziest CTA ever.'>",
-      "fix": "<Give them better words. Example: 'Don't say premium quality - say Lasts 10 years guaranteed. Don't say Learn More - say Get 50% Off Today Only.'>"
-    },
-    "captions": {
-      "score": <0-100>,
-      "feedback": "<Be brutal about the captions/subtitles. If there are NO captions, this is a MAJOR problem - 85% of people watch on mute! If there ARE captions, check: Can you read them? Too small? Wrong color? Bad timing? Examples: 'No captions at all. 85% of people watch on mute. You just lost most of your audience.' or 'The captions at 0:05 are white text on a light background - impossible to read on a phone.'>",
-      "fix": "<Exact fix. If no captions: 'Add captions to EVERY word spoken. Use big, bold white text with a black outline. This is not optional - it's essential.' If bad captions: 'Make the text 2x bigger. Add a dark outline or background. Make sure captions appear slightly BEFORE the words are spoken.'>"
-    }
-  },
-  "checks": [
-    {
-      "label": "First 3 Seconds",
-      "status": "<PASS/FAIL/WARN>",
-      "details": "<Be brutal. Most hooks are terrible. Example: 'Your first 2 seconds show a logo fade-in. That's instant death. Nobody on earth cares about your logo. They're already scrolling.' or 'You open with Hey guys - the most generic, boring opening possible.'>",
-      "fix": "<Give a specific better opening. Example: 'Delete the logo. Start with: Tired of ads that don't work? + show someone frustrated. You have 1 second to hook them - make it count.'>"
-    },
-    {
-      "label": "Does It Keep You Watching?",
-      "status": "<PASS/FAIL/WARN>",
-      "details": "<Be brutal about where it gets boring. Example: 'At 0:06, I wanted to scroll away. By 0:10, I was mentally checked out. The 0:08-0:15 section is painfully slow - same shot, same voice, nothing new.'>",
-      "fix": "<Exact fixes. Example: 'Cut 0:08-0:12 completely - it adds nothing. Add a zoom or scene change every 2-3 seconds. Speed up the voiceover 1.2x.'>"
-    },
-    {
-      "label": "What's In It For Me?",
-      "status": "<PASS/FAIL/WARN>",
-      "details": "<Be brutal. Example: 'I watched the whole ad and I still don't know what problem this solves. You talk about yourself for 25 seconds before mentioning the customer. Nobody cares about your company story.'>",
-      "fix": "<Make it about the customer. Example: 'Lead with the problem: Wasting 3 hours a week on X? Then show how you fix it. Talk about THEM, not you.'>"
-    },
-    {
-      "label": "Call to Action",
-      "status": "<PASS/FAIL/WARN>",
-      "details": "<Be brutal about the CTA. Example: 'Your CTA is Shop Now at 0:28. That's weak. No reason to click. No urgency. No offer. Why would anyone act TODAY?' or 'You don't even have a CTA. You just... end. What am I supposed to do?'>",
-      "fix": "<Write a better CTA. Example: 'Replace Shop Now with Get 50% Off - Ends Tonight + add a countdown timer + show it twice (at 0:15 and 0:28).'>"
-    },
-    {
-      "label": "Attention Grabbers",
-      "status": "<PASS/FAIL/WARN>",
-      "details": "<Be brutal. Example: 'This is 30 seconds of the same energy. No zooms. No surprises. No scene changes. Nothing to wake me up. I'm half asleep by 0:10.' or 'You have exactly ZERO moments that re-grab attention.'>",
-      "fix": "<Where to add them. Example: 'At 0:05, add a quick zoom on the key text. At 0:12, add a whoosh sound. At 0:18, change scenes abruptly. Keep people awake.'>"
-    }
-  ],
-  "scriptRewrite": {
-    "original": "<Write out exactly what is said in the video, word for word. Include on-screen text too.>",
-    "improved": "<Write a better script that would actually work. Make it short, punchy, and about the CUSTOMER not the product. Start with a hook that grabs attention. End with urgency.>",
-    "changes": [
-      "<What you changed and why. Be specific. Example: 'Cut the boring company intro - nobody cares'>",
-      "<Another change. Example: 'Changed 5 features into 1 clear benefit that matters to the customer'>",
-      "<Another change. Example: 'Added urgency: limited time offer instead of weak Shop Now'>",
-      "<Another change. Example: 'Cut from 45 words to 22 - every extra word loses viewers'>",
-      "<Another change. Example: 'Moved the best moment to the first 2 seconds instead of burying it at 0:20'>"
-    ]
-  }
-}
-`;
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
 
-// ==========================================
-// ANALYZE VIDEO FUNCTION
-// ==========================================
-const analyzeVideo = async (
-  file: File,
-  email: string,
-  onUploadProgress: (progress: number) => void,
-  useDeepAnalysis: boolean = false
-): Promise<AnalysisData> => {
-  const formData = new FormData();
-  formData.append("video", file);
-  formData.append("mimeType", file.type);
-  formData.append("licenseKey", email);
-  
-  // Choose worker based on analysis mode
-  const workerUrl = useDeepAnalysis ? MULTIMODEL_WORKER_URL : STANDARD_WORKER_URL;
-  
-  if (useDeepAnalysis) {
-    formData.append("mode", "deep");
-  } else {
-    formData.append("systemPrompt", BRUTAL_SYSTEM_PROMPT);
-  }
-
-  const response = await new Promise<Response>((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-
-    xhr.upload.onprogress = (e) => {
-      if (e.lengthComputable) {
-        onUploadProgress(Math.round((e.loaded / e.total) * 100));
-      }
-    };
+/**
+ * Without a real percentage (null), shows time elapsed since it appeared instead of guessing one
+ */
+const ProgressBar = ({ progress, label }: { progress: number | null; label: string }) => {
+  const [elapsed, setElapsed] = useState(0);
 
-    xhr.onload = () => resolve(new Response(xhr.response, { status: xhr.status }));
-    xhr.onerror = () => reject(new Error("Network error"));
-    xhr.ontimeout = () => reject(new Error("Request timeout"));
-
-    xhr.open("POST", workerUrl);
-    xhr.timeout = 300000; // 5 minutes for deep analysis
-    xhr.send(formData);
-  });
-
-  if (!response.ok) {
-    throw new Error(`Worker returned ${response.status}`);
-  }
-
-  const json = await response.json();
-
-  if (json.error) throw new Error(json.error.message);
-  if (!json.candidates?.[0]?.content?.parts?.[0]?.text) {
-    throw new Error("No analysis returned");
-  }
-
-  const text = json.candidates[0].content.parts[0].text;
-  const jsonStart = text.indexOf("{");
-  const jsonEnd = text.lastIndexOf("}");
-
-  if (jsonStart === -1 || jsonEnd === -1) throw new Error("Invalid JSON");
-
-  const parsed = JSON.parse(text.substring(jsonStart, jsonEnd + 1));
+  useEffect(() => {
+    if (progress !== null) return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [progress === null]);
 
-  return {
-    overallScore: parsed.overallScore || 0,
-    verdict: parsed.verdict || "Analysis incomplete.",
-    categories: {
-      visual: { ...DEFAULT_ANALYSIS.categories.visual, ...parsed.categories?.visual },
-      audio: { ...DEFAULT_ANALYSIS.categories.audio, ...parsed.categories?.audio },
-      copy: { ...DEFAULT_ANALYSIS.categories.copy, ...parsed.categories?.copy },
-    },
-    checks: Array.isArray(parsed.checks) ? parsed.checks : [],
-    scriptRewrite: parsed.scriptRewrite || undefined,
-  };
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-zinc-400">{label}</span>
+        <span className="text-white font-mono">
+          {progress === null ? <><i className="fa-solid fa-spinner fa-spin mr-2"></i>{formatElapsed(elapsed)}</> : `${progress}%`}
+        </span>
+      </div>
+      <div className="h-3 bg-[#222] rounded-full overflow-hidden">
+        {progress === null ? (
+          <motion.div
+            className="h-full w-1/3 bg-white/60 rounded-full"
+            animate={{ x: ["-100%", "300%"] }}
+            transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
+          />
+        ) : (
+          <motion.div
+            className="h-full bg-white"
+            initial={{ width: 0 }}
+            animate={{ width: `${progress}%` }}
+            transition={{ duration: 0.3 }}
+          />
+        )}
+      </div>
+    </div>
+  );
 };
 
 // ==========================================
-// PROGRESS BAR COMPONENT
+// PARTIAL RESULTS COMPONENT
 // ==========================================
-const ProgressBar = ({ progress, label }: { progress: number; label: string }) => (
-  <div className="w-full max-w-md mx-auto">
-    <div className="flex justify-between text-sm mb-2">
-      <span className="text-zinc-400">{label}</span>
-      <span className="text-white font-mono">{progress}%</span>
-    </div>
-    <div className="h-3 bg-[#222] rounded-full overflow-hidden">
-      <motion.div
-        className="h-full bg-white"
-        initial={{ width: 0 }}
-        animate={{ width: `${progress}%` }}
-        transition={{ duration: 0.3 }}
-      />
-    </div>
-  </div>
+const CATEGORY_LABELS = { visual: "Visuals", audio: "Audio", copy: "Copy", captions: "Captions" } as const;
+
+const PartialResults = ({ partial }: { partial: PartialAnalysis }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 10 }}
+    animate={{ opacity: 1, y: 0 }}
+    className="max-w-md mx-auto mt-8 text-left space-y-4"
+  >
+    {partial.verdict && (
+      <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-zinc-500 uppercase tracking-widest">Verdict</span>
+          {partial.overallScore !== undefined && (
+            <span className="text-white font-mono text-sm">{partial.overallScore}/10</span>
+          )}
+        </div>
+        <p className="text-white text-sm">"{partial.verdict}"</p>
+      </div>
+    )}
+
+    {Object.keys(partial.categories).length > 0 && (
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(CATEGORY_LABELS) as (keyof typeof CATEGORY_LABELS)[])
+          .filter((key) => partial.categories[key])
+          .map((key) => (
+            <div key={key} className="flex justify-between p-3 bg-white/[0.03] border border-white/5 rounded-lg text-sm">
+              <span className="text-zinc-400">{CATEGORY_LABELS[key]}</span>
+              <span className="text-white font-mono">{partial.categories[key]!.score}%</span>
+            </div>
+          ))}
+      </div>
+    )}
+
+    {partial.checks.length > 0 && (
+      <div className="space-y-1">
+        {partial.checks.map((check, i) => (
+          <div key={i} className="flex items-center gap-2 text-sm">
+            <i className={`fa-solid ${
+              check.status === "FAIL" ? "fa-xmark text-red-400" :
+              check.status === "WARN" ? "fa-exclamation text-yellow-400" :
+              "fa-check text-green-400"
+            } w-4`}></i>
+            <span className="text-zinc-300">{check.label}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </motion.div>
 );
 
 // ==========================================
@@ -285,6 +189,141 @@ const VideoPreview = ({ file, onRemove }: { file: File; onRemove: () => void })
   );
 };
 
+// ==========================================
+// PLATFORM PROFILE PICKER
+// ==========================================
+const ASPECT_RATIO_OPTIONS: AspectRatioName[] = ['9:16', '4:5', '1:1', '16:9'];
+
+const ProfileNumberField = ({ label, value, unit, onChange }: {
+  label: string;
+  value: number;
+  unit: string;
+  onChange: (value: number) => void;
+}) => (
+  <label className="block">
+    <span className="text-zinc-500 text-xs">{label}</span>
+    <div className="flex items-center gap-2 mt-1">
+      <input
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => onChange(Math.max(1, Number(e.target.value) || 1))}
+        className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-white/30"
+      />
+      <span className="text-zinc-500 text-xs">{unit}</span>
+    </div>
+  </label>
+);
+
+const PlatformProfilePicker = ({ profileId, customProfile, onSelect, onCustomChange }: {
+  profileId: PlatformProfileId;
+  customProfile: PlatformProfile;
+  onSelect: (id: PlatformProfileId) => void;
+  onCustomChange: (profile: PlatformProfile) => void;
+}) => {
+  const togglePreferred = (ratio: AspectRatioName) => {
+    const preferred = customProfile.aspectRatios.preferred.includes(ratio)
+      ? customProfile.aspectRatios.preferred.filter(r => r !== ratio)
+      : [...customProfile.aspectRatios.preferred, ratio];
+    if (preferred.length === 0) return;
+
+    onCustomChange({
+      ...customProfile,
+      aspectRatios: {
+        preferred,
+        accepted: customProfile.aspectRatios.accepted.filter(r => !preferred.includes(r)),
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white/[0.03] border border-white/5 rounded-xl p-5">
+      <div className="flex items-center gap-2 mb-4">
+        <i className="fa-solid fa-bullseye text-white"></i>
+        <span className="text-white font-medium">Placement</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.values(PLATFORM_PROFILES).map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              profileId === profile.id
+                ? 'bg-white text-black font-medium'
+                : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            {profile.label}
+          </button>
+        ))}
+      </div>
+
+      {profileId === 'custom' && (
+        <div className="mt-4 pt-4 border-t border-white/5 space-y-4">
+          <div>
+            <span className="text-zinc-500 text-xs">Preferred aspect ratios</span>
+            <div className="flex gap-2 mt-1">
+              {ASPECT_RATIO_OPTIONS.map((ratio) => (
+                <button
+                  key={ratio}
+                  onClick={() => togglePreferred(ratio)}
+                  className={`px-3 py-1 rounded-full text-xs font-mono transition-colors ${
+                    customProfile.aspectRatios.preferred.includes(ratio)
+                      ? 'bg-white text-black'
+                      : 'bg-white/5 text-zinc-400 hover:bg-white/10'
+                  }`}
+                >
+                  {ratio}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <ProfileNumberField
+              label="Ideal length"
+              unit="sec"
+              value={customProfile.duration.ideal}
+              onChange={(ideal) => onCustomChange({ ...customProfile, duration: { ideal, max: Math.max(ideal, customProfile.duration.max) } })}
+            />
+            <ProfileNumberField
+              label="Max length"
+              unit="sec"
+              value={customProfile.duration.max}
+              onChange={(max) => onCustomChange({ ...customProfile, duration: { ideal: Math.min(max, customProfile.duration.ideal), max } })}
+            />
+            <ProfileNumberField
+              label="Max file size"
+              unit="MB"
+              value={customProfile.maxFileSizeMB}
+              onChange={(maxFileSizeMB) => onCustomChange({ ...customProfile, maxFileSizeMB })}
+            />
+            <ProfileNumberField
+              label="Minimum resolution"
+              unit="px"
+              value={customProfile.resolution.minimum}
+              onChange={(minimum) => onCustomChange({ ...customProfile, resolution: { minimum, recommended: Math.max(minimum, customProfile.resolution.recommended) } })}
+            />
+            <ProfileNumberField
+              label="Recommended resolution"
+              unit="px"
+              value={customProfile.resolution.recommended}
+              onChange={(recommended) => onCustomChange({ ...customProfile, resolution: { minimum: Math.min(recommended, customProfile.resolution.minimum), recommended } })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Page status for each stage of a run
+const STAGE_STATUS: Record<AuditStage, UploadStatus> = {
+  compressing: "COMPRESSING",
+  uploading: "UPLOADING",
+  analyzing: "ANALYZING",
+};
+
 // ==========================================
 // NEW AUDIT PAGE
 // ==========================================
@@ -292,17 +331,34 @@ const NewAudit = () => {
   const { user, refreshStats } = useAuth();
   const subscription = useSubscription();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<UploadStatus>("IDLE");
-  const [progress, setProgress] = useState(0);
+  const [progress, setProgress] = useState<number | null>(0);
   const [statusMessage, setStatusMessage] = useState("");
   const [errorMessage, setErrorMessage] = useState("");
   const [compressionResult, setCompressionResult] = useState<CompressionResult | null>(null);
-  const [technicalAnalysis, setTechnicalAnalysis] = useState<TechnicalAnalysis | null>(null);
+  const [measurements, setMeasurements] = useState<VideoMeasurements | null>(null);
+  const [specsProgress, setSpecsProgress] = useState({ progress: 0, message: "" });
+  const measuringRef = useRef<Promise<VideoMeasurements> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const hashRef = useRef<Promise<string> | null>(null);
+  const [existingAudit, setExistingAudit] = useState<{ id: string; created_at: string; overall_score: number } | null>(null);
+  const scoringConfig = useScoringConfig(user);
+  const [profileId, setProfileId] = useState<PlatformProfileId>(DEFAULT_PROFILE_ID);
+  const [customProfile, setCustomProfile] = useState<PlatformProfile>(PLATFORM_PROFILES.custom);
   const [useDeepAnalysis, setUseDeepAnalysis] = useState(false);
+  const [uploadFrames, setUploadFrames] = useState(false);
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialAnalysis>(EMPTY_PARTIAL_ANALYSIS);
+  const [resumeJob, setResumeJob] = useState<AuditJob | null>(null);
+  const [resumeUpload, setResumeUpload] = useState<CompressionResult | null>(null);
 
   const ffmpegSupported = isFFmpegSupported();
+  // Frames + audio uploads need FFmpeg here and a worker that accepts them
+  const framesUploadSupported = ffmpegSupported && supportsWorkerFeature("frames");
+  const ffmpegThreads = getFFmpegCoreType() === 'mt' ? 'multi-threaded' : 'single-threaded';
+  const compressionMethod = getCompressionMethods()[0];
 
   // Deep analysis available for Pro and Agency plans
   const canUseDeepAnalysis = subscription.plan === 'pro' || subscription.plan === 'agency';
@@ -312,137 +368,190 @@ const NewAudit = () => {
 
   // Log FFmpeg support on mount
   useEffect(() => {
-    console.log(`🔧 FFmpeg.wasm supported: ${ffmpegSupported}`);
+    console.log(`🔧 FFmpeg.wasm supported: ${ffmpegSupported} (${ffmpegThreads})`);
   }, []);
 
-  // Run technical analysis when file is selected
+  // Stop any running compression when leaving the page
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Measure the video once when it's selected; checks are re-evaluated per profile.
+  // Swapping or removing the file cancels the previous run so its results can't land late.
   useEffect(() => {
-    if (file) {
-      runTechnicalAnalysis(file)
-        .then(setTechnicalAnalysis)
-        .catch(console.error);
-    } else {
-      setTechnicalAnalysis(null);
-    }
+    setMeasurements(null);
+    setSpecsProgress({ progress: 0, message: "" });
+    measuringRef.current = null;
+    if (!file) return;
+
+    const controller = new AbortController();
+    const measuring = measureVideo(file, {
+      signal: controller.signal,
+      onProgress: (progress, message) => setSpecsProgress({ progress, message }),
+    });
+    measuringRef.current = measuring;
+
+    measuring
+      .then(setMeasurements)
+      .catch((e) => {
+        if (e?.name !== "AbortError") console.error("Technical analysis failed:", e);
+      });
+
+    return () => controller.abort();
   }, [file]);
 
-  const runAnalysis = async () => {
-    if (!file || !user) return;
+  // Hash the file and look for an earlier audit of the exact same video.
+  // Waits for the specs measurement so the two don't read the file at once.
+  useEffect(() => {
+    setExistingAudit(null);
+    hashRef.current = null;
+    if (!file) return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const hashing = (measuringRef.current || Promise.resolve())
+      .catch(() => {})
+      .then(() => hashFile(file, { signal: controller.signal }));
+    hashRef.current = hashing;
+
+    hashing
+      .then(async (hash) => {
+        if (!supabase || !user || cancelled) return;
+        const { data } = await supabase
+          .from("audits")
+          .select("id, created_at, overall_score")
+          .eq("user_id", user.id)
+          .eq("content_hash", hash)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (!cancelled && data) {
+          console.log(`♻️ Already audited as ${data.id}`);
+          setExistingAudit(data);
+        }
+      })
+      .catch((e) => {
+        if (e?.name !== "AbortError") console.warn("Could not hash video:", e);
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [file, user]);
 
-    const MAX_SIZE_MB = 500; // Allow larger files since we compress
-    if (file.size > MAX_SIZE_MB * 1024 * 1024) {
-      setErrorMessage(`File too large. Maximum is ${MAX_SIZE_MB}MB.`);
-      setStatus("ERROR");
-      return;
-    }
+  // Opened from the dashboard to resume a job: restore its options and
+  // look for the upload this browser cached for it
+  useEffect(() => {
+    const jobId = searchParams.get("job");
+    setResumeJob(null);
+    setResumeUpload(null);
+    if (!supabase || !user || !jobId) return;
+
+    let cancelled = false;
+    supabase
+      .from("audit_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(async ({ data }) => {
+        const job = data as AuditJob | null;
+        if (cancelled || !job) return;
+        if (job.status === "done" && job.audit_id) {
+          navigate(`/audit/${job.audit_id}`, { replace: true });
+          return;
+        }
 
-    if (!file.type.startsWith("video/")) {
-      setErrorMessage("Please upload a valid video file.");
-      setStatus("ERROR");
-      return;
-    }
+        setResumeJob(job);
+        setUseDeepAnalysis(!!job.options?.deepAnalysis);
+        setUploadFrames(!!job.options?.uploadFrames && framesUploadSupported);
 
-    try {
-      // Stage 0: Technical Analysis (if not already done)
-      let techAnalysis = technicalAnalysis;
-      if (!techAnalysis) {
-        setStatusMessage("Analyzing video specs...");
-        techAnalysis = await runTechnicalAnalysis(file);
-        setTechnicalAnalysis(techAnalysis);
-      }
+        // Frames mode needs the original video, which isn't cached
+        const cached = job.content_hash && !job.options?.uploadFrames
+          ? await getCachedCompression(job.content_hash)
+          : null;
+        if (!cancelled) setResumeUpload(cached);
+      });
 
-      // Stage 1: Compress
-      setStatus("COMPRESSING");
-      setProgress(0);
-      setStatusMessage("Preparing...");
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, user]);
 
-      let fileToUpload = file;
-      let result: CompressionResult | null = null;
+  const profile = profileId === 'custom' ? customProfile : PLATFORM_PROFILES[profileId];
 
-      if (file.size > 20 * 1024 * 1024) {
-        result = await compressVideo(file, (p, msg) => {
-          setProgress(p);
-          setStatusMessage(msg);
-        });
-        
-        fileToUpload = result.file;
-        setCompressionResult(result);
-      } else {
-        // File is small, skip compression
-        setCompressionResult({
-          file: file,
-          method: 'skipped',
-          originalSize: file.size,
-          compressedSize: file.size,
-          duration: 0
-        });
+  const technicalAnalysis = useMemo(
+    () => (measurements ? evaluateTechnicalAnalysis(measurements, profile) : null),
+    [measurements, profile]
+  );
+
+  const runAnalysis = async (resumeFrom: CompressionResult | null = null) => {
+    if (!user || (!file && !resumeFrom)) return;
+
+    if (file && !resumeFrom) {
+      const MAX_SIZE_MB = 500; // Allow larger files since we compress
+      if (file.size > MAX_SIZE_MB * 1024 * 1024) {
+        setErrorMessage(`File too large. Maximum is ${MAX_SIZE_MB}MB.`);
+        setStatus("ERROR");
+        return;
+      }
+
+      if (!file.type.startsWith("video/")) {
+        setErrorMessage("Please upload a valid video file.");
+        setStatus("ERROR");
+        return;
       }
+    }
 
-      // Stage 2: Upload
-      setStatus("UPLOADING");
-      setProgress(0);
-      setStatusMessage("Uploading to server...");
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPartialAnalysis(EMPTY_PARTIAL_ANALYSIS);
 
-      let uploadComplete = false;
-      const analysisPromise = analyzeVideo(fileToUpload, user.email || "", (p) => {
-        if (!uploadComplete) {
+    try {
+      const { auditId } = await runAudit({
+        userId: user.id,
+        licenseKey: user.email || "",
+        profile,
+        scoringConfig,
+        deepAnalysis: useDeepAnalysis,
+        uploadFrames,
+        file: resumeFrom ? null : file,
+        contentHash: hashRef.current,
+        technicalAnalysis,
+        measuring: measuringRef.current,
+        resumeJob,
+        resumeUpload: resumeFrom,
+        signal: controller.signal,
+        onStage: (stage) => setStatus(STAGE_STATUS[stage]),
+        onProgress: (p, message) => {
           setProgress(p);
-          if (p === 100) {
-            uploadComplete = true;
-            setStatus("ANALYZING");
-            setProgress(0);
-            setStatusMessage(useDeepAnalysis ? "Deep AI analysis in progress..." : "AI analyzing your ad...");
-          }
-        }
-      }, useDeepAnalysis);
-
-      // Stage 3: Analyze with simulated progress
-      setStatus("ANALYZING");
-      let analysisProgress = 0;
-      const progressInterval = setInterval(() => {
-        analysisProgress += Math.random() * 12;
-        if (analysisProgress > 90) analysisProgress = 90;
-        setProgress(Math.floor(analysisProgress));
-      }, 800);
-
-      const data = await analysisPromise;
-      clearInterval(progressInterval);
-      setProgress(100);
-      setStatusMessage("Complete!");
-
-      // Add technical analysis to the data
-      data.technicalAnalysis = techAnalysis;
-
-      // Save to database
-      if (supabase) {
-        const { data: insertedAudit, error } = await supabase
-          .from("audits")
-          .insert({
-            user_id: user.id,
-            video_name: file.name,
-            video_size_mb: parseFloat((file.size / 1024 / 1024).toFixed(2)),
-            overall_score: data.overallScore,
-            verdict: data.verdict,
-            categories: data.categories,
-            checks: data.checks,
-            script_rewrite: data.scriptRewrite || null,
-            technical_analysis: techAnalysis || null,
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-
-        refreshStats();
-        navigate(`/audit/${insertedAudit.id}`);
-      }
+          if (message) setStatusMessage(message);
+        },
+        onCompressed: setCompressionResult,
+        onEvent: (event) => setPartialAnalysis((partial) => applyStreamEvent(partial, event)),
+      });
+
+      refreshStats();
+      if (auditId) navigate(`/audit/${auditId}`);
     } catch (e: any) {
+      // Cancelled: back to the file so the user can start again
+      if (isAbortError(e)) {
+        setStatus("IDLE");
+        setProgress(0);
+        setStatusMessage("");
+        return;
+      }
       console.error("Analysis failed:", e);
       setErrorMessage(e.message || "Analysis failed");
       setStatus("ERROR");
+    } finally {
+      controllerRef.current = null;
     }
   };
 
+  const cancelAudit = () => {
+    controllerRef.current?.abort();
+  };
+
   const reset = () => {
     setFile(null);
     setStatus("IDLE");
@@ -450,6 +559,7 @@ const NewAudit = () => {
     setStatusMessage("");
     setErrorMessage("");
     setCompressionResult(null);
+    setPartialAnalysis(EMPTY_PARTIAL_ANALYSIS);
   };
 
   const getStatusIcon = () => {
@@ -467,6 +577,8 @@ const NewAudit = () => {
 
   const getMethodBadge = (method: string) => {
     switch (method) {
+      case 'webcodecs':
+        return { text: 'WebCodecs', color: 'text-green-400 bg-green-400/10', icon: 'fa-solid fa-microchip' };
       case 'ffmpeg':
         return { text: 'FFmpeg.wasm', color: 'text-green-400 bg-green-400/10', icon: 'fa-solid fa-bolt' };
       case 'canvas':
@@ -532,12 +644,12 @@ const NewAudit = () => {
                 {ffmpegSupported ? (
                   <span className="ml-2 text-green-500 text-xs">
                     <i className="fa-solid fa-bolt mr-1"></i>
-                    FFmpeg.wasm ready
+                    FFmpeg.wasm ready ({ffmpegThreads})
                   </span>
                 ) : (
                   <span className="ml-2 text-yellow-500 text-xs">
                     <i className="fa-solid fa-palette mr-1"></i>
-                    Canvas mode (SharedArrayBuffer unavailable)
+                    Canvas mode (WebAssembly unavailable)
                   </span>
                 )}
               </p>
@@ -563,6 +675,34 @@ const NewAudit = () => {
           {/* IDLE State */}
           {status === "IDLE" && (
             <div className="space-y-6">
+              {resumeJob && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-amber-200 text-sm font-medium">
+                      <i className="fa-solid fa-rotate-right mr-2"></i>
+                      {resumeJob.status === "failed"
+                        ? `${resumeJob.video_name} didn't finish`
+                        : `${resumeJob.video_name} was interrupted while ${JOB_STATUS_LABELS[resumeJob.status].toLowerCase()}`}
+                    </p>
+                    <p className="text-zinc-400 text-xs mt-1">
+                      {resumeJob.error && <>{resumeJob.error}. </>}
+                      {resumeUpload
+                        ? "Its upload is still cached in this browser - no need to select it again."
+                        : "It's not cached in this browser any more - select the same video to pick up where it left off."}
+                    </p>
+                  </div>
+                  {resumeUpload && (
+                    <button
+                      onClick={() => runAnalysis(resumeUpload)}
+                      disabled={!hasAuditsRemaining}
+                      className="bg-white text-black px-4 py-2 rounded-lg text-sm font-medium hover:opacity-90 transition-opacity flex-shrink-0 disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                  )}
+                </div>
+              )}
+
               {!file ? (
                 <div
                   className="border-2 border-dashed border-white/10 bg-white/[0.03] rounded-xl p-12 cursor-pointer hover:border-white/20 hover:bg-white/[0.02] transition-all text-center"
@@ -587,16 +727,68 @@ const NewAudit = () => {
               ) : (
                 <>
                   <VideoPreview file={file} onRemove={() => setFile(null)} />
+
+                  {existingAudit && (
+                    <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-4 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="text-blue-200 text-sm font-medium">
+                          <i className="fa-solid fa-clone mr-2"></i>
+                          You've already audited this exact video
+                        </p>
+                        <p className="text-zinc-400 text-xs mt-1">
+                          Scored {existingAudit.overall_score}/10 on {new Date(existingAudit.created_at).toLocaleDateString()}.
+                          Opening it doesn't use an audit.
+                        </p>
+                      </div>
+                      <Link
+                        to={`/audit/${existingAudit.id}`}
+                        className="bg-white text-black px-4 py-2 rounded-lg text-sm font-medium hover:opacity-90 transition-opacity flex-shrink-0"
+                      >
+                        Open Existing Audit
+                      </Link>
+                    </div>
+                  )}
+
+                  <PlatformProfilePicker
+                    profileId={profileId}
+                    customProfile={customProfile}
+                    onSelect={setProfileId}
+                    onCustomChange={setCustomProfile}
+                  />
                   
                   {/* Technical Specs Preview */}
+                  {!technicalAnalysis && specsProgress.message && (
+                    <div className="bg-white/[0.03] border border-white/5 rounded-xl p-5">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center gap-2">
+                          <i className="fa-solid fa-gear fa-spin text-white"></i>
+                          <span className="text-white font-medium">Technical Specs</span>
+                        </div>
+                        <span className="text-zinc-500 text-xs">{specsProgress.message}</span>
+                      </div>
+                      <div className="h-1.5 bg-[#222] rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full bg-white"
+                          initial={{ width: 0 }}
+                          animate={{ width: `${specsProgress.progress}%` }}
+                          transition={{ duration: 0.3 }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {technicalAnalysis && (
                     <div className="bg-white/[0.03] border border-white/5 rounded-xl p-5">
                       <div className="flex items-center justify-between mb-4">
                         <div className="flex items-center gap-2">
                           <i className="fa-solid fa-gear text-white"></i>
                           <span className="text-white font-medium">Technical Specs</span>
+                          <span className="text-zinc-500 text-xs">vs {profile.label}</span>
                         </div>
                         <div className="flex items-center gap-2">
+                          <span className="text-zinc-500 text-xs font-mono">
+                            {calculateTechnicalScore(technicalAnalysis, scoringConfig)}/100
+                          </span>
                           {(() => {
                             const issues = countIssues(technicalAnalysis);
                             if (issues.fails > 0) {
@@ -623,9 +815,9 @@ const NewAudit = () => {
                       </div>
                       
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                        {Object.entries(technicalAnalysis).map(([key, check]) => (
+                        {getTechnicalChecks(technicalAnalysis).map((check) => (
                           <div 
-                            key={key}
+                            key={check.label}
                             className={`p-3 rounded-lg border ${
                               check.status === 'FAIL' 
                                 ? 'bg-red-500/5 border-red-500/20' 
@@ -653,7 +845,7 @@ const NewAudit = () => {
                       
                       {/* Show critical issues */}
                       {(() => {
-                        const criticalIssues = Object.values(technicalAnalysis).filter(c => c.status === 'FAIL');
+                        const criticalIssues = getTechnicalChecks(technicalAnalysis).filter(c => c.status === 'FAIL');
                         if (criticalIssues.length > 0) {
                           return (
                             <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -701,6 +893,31 @@ const NewAudit = () => {
                 </div>
               )}
               
+              {/* Frames + audio upload mode - needs FFmpeg and worker support */}
+              {file && framesUploadSupported && (
+                <div className="flex items-center justify-between p-4 bg-white/[0.03] border border-white/10 rounded-xl mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-blue-500/10 rounded-lg flex items-center justify-center">
+                      <i className="fa-solid fa-images text-blue-400"></i>
+                    </div>
+                    <div>
+                      <p className="text-white font-medium text-sm">Upload Frames + Audio</p>
+                      <p className="text-zinc-500 text-xs">Sends sampled stills and a mono audio track instead of the video - much smaller for long ads</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setUploadFrames(!uploadFrames)}
+                    className={`relative w-12 h-6 rounded-full transition-colors ${
+                      uploadFrames ? 'bg-blue-500' : 'bg-zinc-700'
+                    }`}
+                  >
+                    <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                      uploadFrames ? 'translate-x-7' : 'translate-x-1'
+                    }`} />
+                  </button>
+                </div>
+              )}
+
               {/* Show badge if deep analysis not available */}
               {file && !canUseDeepAnalysis && (
                 <div className="flex items-center gap-2 p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg mb-4">
@@ -712,7 +929,7 @@ const NewAudit = () => {
               )}
 
               <button
-                onClick={runAnalysis}
+                onClick={() => runAnalysis()}
                 disabled={!file || !hasAuditsRemaining}
                 className="w-full bg-white text-black font-medium py-4 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
               >
@@ -742,7 +959,7 @@ const NewAudit = () => {
               </div>
 
               <h2 className="text-2xl font-medium text-white mb-2">
-                {status === "COMPRESSING" && "Compressing Video"}
+                {status === "COMPRESSING" && (uploadFrames ? "Extracting Frames" : "Compressing Video")}
                 {status === "UPLOADING" && "Uploading"}
                 {status === "ANALYZING" && "Analyzing"}
               </h2>
@@ -758,15 +975,31 @@ const NewAudit = () => {
                 }
               />
 
+              {status === "ANALYZING" && (partialAnalysis.verdict || partialAnalysis.checks.length > 0 || Object.keys(partialAnalysis.categories).length > 0) && (
+                <PartialResults partial={partialAnalysis} />
+              )}
+
               {status === "COMPRESSING" && (
                 <p className="text-sm text-zinc-500 mt-6">
-                  <i className={`${ffmpegSupported ? 'fa-solid fa-bolt text-green-500' : 'fa-solid fa-palette text-yellow-500'} mr-2`}></i>
-                  {ffmpegSupported 
+                  <i className={`${compressionMethod === 'canvas' ? 'fa-solid fa-palette text-yellow-500' : 'fa-solid fa-bolt text-green-500'} mr-2`}></i>
+                  {compressionMethod === 'webcodecs'
+                    ? "Using WebCodecs (hardware accelerated)"
+                    : compressionMethod === 'ffmpeg'
                     ? "Using FFmpeg.wasm (fast)"
                     : "Using Canvas fallback (slower)"}
                 </p>
               )}
 
+              {(status === "COMPRESSING" || status === "UPLOADING" || status === "ANALYZING") && (
+                <button
+                  onClick={cancelAudit}
+                  className="mt-6 bg-white/5 border border-white/10 text-white px-5 py-2 rounded-lg text-sm font-medium hover:bg-white/10 transition-colors"
+                >
+                  <i className="fa-solid fa-xmark mr-2"></i>
+                  Cancel
+                </button>
+              )}
+
               {compressionResult && status !== "COMPRESSING" && compressionResult.method !== 'skipped' && (
                 <div className="mt-4 p-4 bg-white/5 rounded-lg inline-block">
                   <div className="flex items-center gap-3 mb-2">
@@ -787,6 +1020,12 @@ const NewAudit = () => {
                       ({((1 - compressionResult.compressedSize / compressionResult.originalSize) * 100).toFixed(0)}% smaller in {compressionResult.duration.toFixed(1)}s)
                     </span>
                   </p>
+                  {!compressionResult.audioPreserved && (
+                    <p className="text-sm text-yellow-400 mt-2">
+                      <i className="fa-solid fa-volume-xmark mr-2"></i>
+                      Audio couldn't be kept in this browser - audio feedback may be unreliable
+                    </p>
+                  )}
                 </div>
               )}
             </div>
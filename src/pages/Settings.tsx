@@ -0,0 +1,286 @@
+// ==========================================
+// SETTINGS PAGE
+// Workspace settings: technical score weighting and hard-fail rules
+// ==========================================
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { useAuth, supabase } from '../context/AuthContext';
+import { useSubscription } from '../context/SubscriptionContext';
+import { HardFailRule, TechnicalCheckKey, TechnicalScoringConfig } from '../types';
+import {
+  TECHNICAL_CHECK_LABELS,
+  DEFAULT_SCORING_CONFIG,
+  normalizeScoringConfig,
+  describeScoringFormula,
+} from '../utils/technicalAnalysis';
+import DashboardLayout from '../components/DashboardLayout';
+
+const CHECK_KEYS = Object.keys(TECHNICAL_CHECK_LABELS) as TechnicalCheckKey[];
+
+// ==========================================
+// NUMBER INPUT COMPONENT
+// ==========================================
+const NumberInput = ({
+  value,
+  onChange,
+  min = 0,
+  max,
+  step = 1,
+  disabled,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled?: boolean;
+}) => (
+  <input
+    type="number"
+    value={value}
+    min={min}
+    max={max}
+    step={step}
+    disabled={disabled}
+    onChange={(e) => {
+      const parsed = Number(e.target.value);
+      if (!Number.isFinite(parsed)) return;
+      onChange(Math.min(max ?? Infinity, Math.max(min, parsed)));
+    }}
+    className="w-20 bg-black/40 border border-white/10 rounded-lg px-3 py-1.5 text-white text-sm text-right focus:outline-none focus:border-white/30 disabled:opacity-50"
+  />
+);
+
+// ==========================================
+// SETTINGS PAGE
+// ==========================================
+const Settings = () => {
+  const { user } = useAuth();
+  const subscription = useSubscription();
+  const [config, setConfig] = useState<TechnicalScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Custom scoring is an Agency feature
+  const canEdit = subscription.plan === 'agency';
+
+  // The account's profile row doubles as its workspace
+  useEffect(() => {
+    if (!supabase || !user) {
+      setLoading(false);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('technical_scoring')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.warn('Could not load scoring settings:', error);
+        setConfig(normalizeScoringConfig(data?.technical_scoring));
+        setLoading(false);
+      });
+  }, [user]);
+
+  const setWeight = (key: TechnicalCheckKey, weight: number) => {
+    setConfig(prev => ({ ...prev, weights: { ...prev.weights, [key]: weight } }));
+  };
+
+  const updateRule = (index: number, changes: Partial<HardFailRule>) => {
+    setConfig(prev => ({
+      ...prev,
+      hardFails: prev.hardFails.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const addRule = () => {
+    setConfig(prev => ({
+      ...prev,
+      hardFails: [...prev.hardFails, { check: 'hasAudio', status: 'FAIL', maxScore: 0 }],
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setConfig(prev => ({ ...prev, hardFails: prev.hardFails.filter((_, i) => i !== index) }));
+  };
+
+  const save = async () => {
+    if (!supabase || !user) return;
+    setSaving(true);
+    setMessage(null);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ technical_scoring: config })
+      .eq('id', user.id);
+
+    setSaving(false);
+    setMessage(error
+      ? { type: 'error', text: error.message || 'Failed to save settings' }
+      : { type: 'success', text: 'Saved. New audits will use these weights.' });
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="min-h-[60vh] flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-zinc-800 border-t-zinc-500 rounded-full animate-spin"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 lg:p-8 max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-semibold text-white mb-1">Settings</h1>
+          <p className="text-zinc-500">Workspace settings applied to every new audit</p>
+        </div>
+
+        {!canEdit && (
+          <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 mb-6 flex items-center justify-between gap-4">
+            <p className="text-amber-200 text-sm">
+              Custom score weighting is available on the Agency plan. You're using the default weights.
+            </p>
+            <Link
+              to="/billing"
+              className="bg-white text-black px-4 py-2 rounded-lg text-sm font-medium hover:opacity-90 transition-opacity flex-shrink-0"
+            >
+              View Plans
+            </Link>
+          </div>
+        )}
+
+        {/* Technical Scoring */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white/[0.02] border border-white/5 rounded-xl p-5 mb-6"
+        >
+          <h3 className="text-base font-medium text-white mb-1">Technical Score</h3>
+          <p className="text-zinc-500 text-sm mb-5">{describeScoringFormula(config)}</p>
+
+          {/* Penalties */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {(['FAIL', 'WARN'] as const).map((status) => (
+              <div key={status} className="flex items-center justify-between bg-white/[0.02] border border-white/5 rounded-lg p-4">
+                <span className={`text-sm font-medium ${status === 'FAIL' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  Points off per {status}
+                </span>
+                <NumberInput
+                  value={config.penalties[status]}
+                  max={100}
+                  disabled={!canEdit}
+                  onChange={(value) => setConfig(prev => ({ ...prev, penalties: { ...prev.penalties, [status]: value } }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Weights */}
+          <h4 className="text-white text-sm font-medium mb-1">Check weights</h4>
+          <p className="text-zinc-500 text-xs mb-3">1 = normal, 2 = counts double, 0 = ignored in the score</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 mb-6">
+            {CHECK_KEYS.map((key) => (
+              <div key={key} className="flex items-center justify-between py-1.5 border-b border-white/5">
+                <span className="text-zinc-300 text-sm">{TECHNICAL_CHECK_LABELS[key]}</span>
+                <NumberInput
+                  value={config.weights[key] ?? 1}
+                  max={10}
+                  step={0.5}
+                  disabled={!canEdit}
+                  onChange={(value) => setWeight(key, value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Hard-fail rules */}
+          <h4 className="text-white text-sm font-medium mb-1">Hard-fail rules</h4>
+          <p className="text-zinc-500 text-xs mb-3">Cap the score when a check fails, whatever else passes. E.g. no audio = automatic 0.</p>
+          <div className="space-y-2 mb-3">
+            {config.hardFails.length === 0 && (
+              <p className="text-zinc-600 text-sm">No hard-fail rules.</p>
+            )}
+            {config.hardFails.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-zinc-400">
+                <span>If</span>
+                <select
+                  value={rule.check}
+                  disabled={!canEdit}
+                  onChange={(e) => updateRule(index, { check: e.target.value as TechnicalCheckKey })}
+                  className="bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-white/30"
+                >
+                  {CHECK_KEYS.map((key) => (
+                    <option key={key} value={key}>{TECHNICAL_CHECK_LABELS[key]}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.status}
+                  disabled={!canEdit}
+                  onChange={(e) => updateRule(index, { status: e.target.value as HardFailRule['status'] })}
+                  className="bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-white/30"
+                >
+                  <option value="FAIL">fails</option>
+                  <option value="WARN">warns or fails</option>
+                </select>
+                <span>cap score at</span>
+                <NumberInput
+                  value={rule.maxScore}
+                  max={100}
+                  disabled={!canEdit}
+                  onChange={(maxScore) => updateRule(index, { maxScore })}
+                />
+                {canEdit && (
+                  <button onClick={() => removeRule(index)} className="p-2 text-zinc-500 hover:text-red-500 transition-colors">
+                    <i className="fa-solid fa-trash text-xs"></i>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {canEdit && (
+            <button
+              onClick={addRule}
+              className="text-zinc-400 hover:text-white text-sm transition-colors"
+            >
+              <i className="fa-solid fa-plus mr-2 text-xs"></i>
+              Add rule
+            </button>
+          )}
+        </motion.div>
+
+        {canEdit && (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={save}
+              disabled={saving}
+              className="bg-white text-black px-5 py-2 rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setConfig(DEFAULT_SCORING_CONFIG)}
+              className="bg-white/5 border border-white/10 text-white px-5 py-2 rounded-lg font-medium hover:bg-white/10 transition-colors"
+            >
+              Reset to defaults
+            </button>
+            {message && (
+              <span className={`text-sm ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                {message.text}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Settings;
@@ -31,6 +31,69 @@ export interface TechnicalCheck {
   value: string;
   details: string;
   fix?: string;
+  measured?: number; // Raw measured value behind `value`
+  method?: string;   // How the value was obtained (e.g. 'container', 'playback')
+  timestamps?: number[]; // Where in the video the problem shows up, in seconds
+}
+
+export interface PacingAnalysis {
+  cuts: number[];            // shot boundary timestamps in seconds
+  shotCount: number;
+  averageShotLength: number; // in seconds
+  cutsPerMinute: number;
+  longestStaticStretch: {
+    start: number;
+    end: number;
+    duration: number;
+  };
+  activity: number[];        // visual change per second, 0-1
+}
+
+export type SafeZonePlatform = 'tiktok' | 'reels' | 'shorts';
+
+export interface SafeZoneSnapshot {
+  time: number;                   // in seconds
+  image: string;                  // JPEG data URL of the sampled frame
+  platforms: SafeZonePlatform[];  // platforms whose UI covers content in this frame
+}
+
+// ==========================================
+// PLATFORM PROFILES
+// ==========================================
+
+export type PlatformProfileId =
+  | 'tiktok'
+  | 'reels'
+  | 'shorts'
+  | 'meta_feed'
+  | 'youtube_preroll'
+  | 'snapchat'
+  | 'custom';
+
+export type AspectRatioName = '9:16' | '4:5' | '1:1' | '16:9';
+
+export interface PlatformProfile {
+  id: PlatformProfileId;
+  label: string;
+  aspectRatios: {
+    preferred: AspectRatioName[]; // PASS
+    accepted: AspectRatioName[];  // WARN, anything else FAILs
+  };
+  duration: {
+    ideal: number; // seconds, PASS up to here
+    max: number;   // seconds, WARN up to here, FAIL beyond
+  };
+  resolution: {
+    recommended: number; // short side in pixels, PASS from here
+    minimum: number;     // short side in pixels, FAIL below
+  };
+  maxFileSizeMB: number; // platform upload limit
+  loudness: {
+    integrated: number; // LUFS target
+    tolerance: number;  // LU either side of the target
+    truePeak: number;   // dBTP ceiling
+  };
+  safeZones: SafeZonePlatform[];
 }
 
 export interface TechnicalAnalysis {
@@ -40,6 +103,63 @@ export interface TechnicalAnalysis {
   fileSize: TechnicalCheck;
   frameRate: TechnicalCheck;
   hasAudio: TechnicalCheck;
+  videoCodec?: TechnicalCheck;
+  bitrate?: TechnicalCheck;
+  colorSpace?: TechnicalCheck;
+  rotation?: TechnicalCheck;
+  audioCodec?: TechnicalCheck;
+  loudness?: TechnicalCheck;
+  clipping?: TechnicalCheck;
+  safeZones?: TechnicalCheck;
+  blackFrames?: TechnicalCheck;
+  frozenFrames?: TechnicalCheck;
+  focus?: TechnicalCheck;
+  pacing?: PacingAnalysis;
+  safeZoneFrame?: SafeZoneSnapshot;
+}
+
+// Every check that can appear on a TechnicalAnalysis
+export type TechnicalCheckKey =
+  | 'resolution'
+  | 'aspectRatio'
+  | 'duration'
+  | 'fileSize'
+  | 'frameRate'
+  | 'hasAudio'
+  | 'videoCodec'
+  | 'bitrate'
+  | 'colorSpace'
+  | 'rotation'
+  | 'audioCodec'
+  | 'loudness'
+  | 'clipping'
+  | 'safeZones'
+  | 'blackFrames'
+  | 'frozenFrames'
+  | 'focus';
+
+// ==========================================
+// TECHNICAL SCORING
+// ==========================================
+
+export interface HardFailRule {
+  check: TechnicalCheckKey;
+  status: 'FAIL' | 'WARN'; // triggers at this status or worse
+  maxScore: number;        // score is capped here (0 = automatic zero)
+}
+
+export interface TechnicalScoringConfig {
+  penalties: { FAIL: number; WARN: number };           // points off per check at weight 1
+  weights: Partial<Record<TechnicalCheckKey, number>>; // multiplier per check, default 1, 0 ignores it
+  hardFails: HardFailRule[];
+}
+
+export interface TechnicalScoreBreakdown {
+  score: number;
+  formula: string; // formula id, so old audits can be re-explained if the formula changes
+  config: TechnicalScoringConfig;
+  deductions: { check: TechnicalCheckKey; label: string; status: 'FAIL' | 'WARN'; points: number }[];
+  hardFail?: { check: TechnicalCheckKey; label: string; maxScore: number };
 }
 
 export interface AnalysisData {
@@ -54,6 +174,7 @@ export interface AnalysisData {
   checks: CheckItem[];
   scriptRewrite?: ScriptRewrite;
   technicalAnalysis?: TechnicalAnalysis;
+  validationWarnings?: string[]; // what had to be repaired or defaulted in the AI response
 }
 
 export interface AuditRecord {
@@ -72,6 +193,11 @@ export interface AuditRecord {
   checks: CheckItem[];
   script_rewrite?: ScriptRewrite;
   technical_analysis?: TechnicalAnalysis;
+  technical_score?: TechnicalScoreBreakdown;
+  platform_profile?: PlatformProfile;
+  content_hash?: string; // SHA-256 of the uploaded file, for spotting re-uploads
+  validation_warnings?: string[];
+  batch_id?: string | null; // set when the audit ran as part of a batch
   created_at: string;
 }
 
@@ -98,3 +224,62 @@ export const DEFAULT_ANALYSIS: AnalysisData = {
 // ==========================================
 
 export type UploadStatus = 'IDLE' | 'COMPRESSING' | 'UPLOADING' | 'ANALYZING' | 'SUCCESS' | 'ERROR';
+
+// ==========================================
+// AUDIT JOBS
+// ==========================================
+
+export type AuditJobStatus = 'queued' | 'compressing' | 'uploading' | 'analyzing' | 'done' | 'failed';
+
+export interface AuditJobOptions {
+  deepAnalysis: boolean;
+  uploadFrames: boolean;
+}
+
+// One row per audit run in `audit_jobs`, so a run outlives the tab that started it
+export interface AuditJob {
+  id: string;
+  user_id: string;
+  video_name: string;
+  video_size_mb: number;
+  content_hash: string | null; // finds the locally cached upload when resuming
+  status: AuditJobStatus;
+  progress: number;
+  error?: string | null;
+  options: AuditJobOptions;
+  technical_analysis?: TechnicalAnalysis | null;
+  platform_profile?: PlatformProfile | null;
+  audit_id?: string | null;
+  created_at: string;
+  updated_at: string; // bumped while the run is alive; see isJobInterrupted
+}
+
+// ==========================================
+// COMPARISONS
+// ==========================================
+
+export interface ComparisonPick {
+  winner: string; // audit id
+  explanation: string;
+}
+
+// The AI's relative judgement across two or more audited variants
+export interface ComparisonJudgement {
+  winner: string; // audit id
+  reasons: string[];
+  hook: ComparisonPick;
+  cta: ComparisonPick;
+  summary: string;
+}
+
+export interface ComparisonRecord {
+  id: string;
+  user_id: string;
+  audit_ids: string[]; // in upload order
+  winner_audit_id: string;
+  reasons: string[];
+  hook: ComparisonPick;
+  cta: ComparisonPick;
+  summary: string;
+  created_at: string;
+}
@@ -0,0 +1,258 @@
+// ==========================================
+// ANALYSIS RESPONSE SCHEMA
+// Turns the model's text reply into a valid AnalysisData: extracts the
+// JSON (repairing it if the reply was cut off), then checks every field
+// against the shape the prompt asks for. Anything fixed up along the way
+// is recorded as a warning so it can be shown with the audit.
+// ==========================================
+
+import { AnalysisData, AuditCategory, CheckItem, ComparisonJudgement, ComparisonPick, ScriptRewrite } from '../types';
+
+const CATEGORY_KEYS = ['visual', 'audio', 'copy', 'captions'] as const;
+const CHECK_STATUSES: CheckItem['status'][] = ['PASS', 'FAIL', 'WARN'];
+
+// ==========================================
+// JSON EXTRACTION & REPAIR
+// ==========================================
+
+/**
+ * Best-effort fix for truncated or sloppy JSON: drops trailing commas,
+ * cuts back to the last complete value and closes whatever is still open
+ */
+export const repairJson = (input: string): string => {
+  const stack: string[] = [];
+  let output = '';
+  let inString = false;
+  let escaped = false;
+  // Where the output could be cut while staying valid, and what was open there
+  let safeEnd = 0;
+  let safeStack: string[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      output += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      // A trailing comma before the closer - strings are never touched
+      const trimmed = output.trimEnd();
+      if (trimmed.endsWith(',')) output = trimmed.slice(0, -1);
+      stack.pop();
+      output += char;
+      safeEnd = output.length;
+      safeStack = [...stack];
+      // Whatever follows the top-level object (e.g. a closing fence) is dropped
+      if (stack.length === 0) break;
+      continue;
+    } else if (char === ',') {
+      safeEnd = output.length;
+      safeStack = [...stack];
+    }
+    output += char;
+  }
+
+  // An unterminated string or dangling key means the tail is unusable
+  const closers = [...safeStack].reverse().join('');
+  return output.slice(0, safeEnd) + closers;
+};
+
+/**
+ * Pull the JSON object out of a model reply that may include prose,
+ * markdown fences or a truncated ending
+ */
+export const extractJson = (text: string): { value: unknown; repaired: boolean } => {
+  const start = text.indexOf('{');
+  if (start === -1) throw new Error('The AI response contained no JSON');
+
+  const end = text.lastIndexOf('}');
+  if (end > start) {
+    try {
+      return { value: JSON.parse(text.slice(start, end + 1)), repaired: false };
+    } catch {
+      // fall through to repair
+    }
+  }
+
+  // Also reached when prose after the object contains a '}'. Cutting that off
+  // isn't a repair - dropped commas, a cut-back tail or added closers are, and
+  // any of those makes the output stop matching the reply it was read from.
+  const json = text.slice(start);
+  const repaired = repairJson(json);
+  try {
+    return { value: JSON.parse(repaired), repaired: repaired !== json.slice(0, repaired.length) };
+  } catch {
+    throw new Error('The AI response was not valid JSON and could not be repaired');
+  }
+};
+
+// ==========================================
+// FIELD VALIDATORS
+// ==========================================
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const validateScore = (value: unknown, max: number, field: string, warnings: string[]): number => {
+  const score = toNumber(value);
+  if (score === null) {
+    warnings.push(`${field} was missing or not a number`);
+    return 0;
+  }
+  // A 0-10 score sent as a percentage
+  if (max === 10 && score > 10 && score <= 100) {
+    warnings.push(`${field} was ${score}, rescaled to 0-10`);
+    return Math.round(score) / 10;
+  }
+  if (score < 0 || score > max) {
+    warnings.push(`${field} was ${score}, clamped to 0-${max}`);
+  }
+  return Math.min(max, Math.max(0, score));
+};
+
+const validateCategory = (value: unknown, key: string, warnings: string[]): AuditCategory => {
+  if (!isObject(value)) {
+    warnings.push(`Category "${key}" was missing`);
+    return { score: 0, feedback: '', fix: '' };
+  }
+  const feedback = toText(value.feedback);
+  if (!feedback) warnings.push(`Category "${key}" had no feedback`);
+  return {
+    score: validateScore(value.score, 100, `${key} score`, warnings),
+    feedback,
+    fix: toText(value.fix),
+  };
+};
+
+const validateCheck = (value: unknown, index: number, warnings: string[]): CheckItem | null => {
+  if (!isObject(value) || !toText(value.label)) {
+    warnings.push(`Check #${index + 1} was dropped (no label)`);
+    return null;
+  }
+  const label = toText(value.label);
+
+  let status = toText(value.status).toUpperCase() as CheckItem['status'];
+  if (!CHECK_STATUSES.includes(status)) {
+    warnings.push(`Check "${label}" had status "${value.status ?? 'none'}", treated as WARN`);
+    status = 'WARN';
+  }
+
+  return { label, status, details: toText(value.details), fix: toText(value.fix) };
+};
+
+const validateScriptRewrite = (value: unknown, warnings: string[]): ScriptRewrite | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value) || !toText(value.improved)) {
+    warnings.push('Script rewrite was malformed and dropped');
+    return undefined;
+  }
+  return {
+    original: toText(value.original),
+    improved: toText(value.improved),
+    changes: Array.isArray(value.changes) ? value.changes.map(toText).filter(Boolean) : [],
+  };
+};
+
+// ==========================================
+// VALIDATE
+// ==========================================
+
+/**
+ * Validate a parsed reply field by field. Throws when there's nothing
+ * usable; otherwise returns the cleaned data and what had to be fixed.
+ */
+export const validateAnalysis = (value: unknown): { data: AnalysisData; warnings: string[] } => {
+  if (!isObject(value)) throw new Error('The AI response was not a JSON object');
+
+  const hasCategories = isObject(value.categories) && CATEGORY_KEYS.some((key) => isObject(value.categories[key]));
+  if (!hasCategories && toNumber(value.overallScore) === null) {
+    throw new Error('The AI response had no score or categories');
+  }
+
+  const warnings: string[] = [];
+  const categories = isObject(value.categories) ? value.categories : {};
+
+  const verdict = toText(value.verdict);
+  if (!verdict) warnings.push('Verdict was missing');
+
+  if (value.checks !== undefined && !Array.isArray(value.checks)) warnings.push('Checks were not a list');
+  const checks = (Array.isArray(value.checks) ? value.checks : [])
+    .map((check: unknown, i: number) => validateCheck(check, i, warnings))
+    .filter((check: CheckItem | null): check is CheckItem => check !== null);
+
+  const data: AnalysisData = {
+    overallScore: validateScore(value.overallScore, 10, 'Overall score', warnings),
+    verdict: verdict || 'Analysis incomplete.',
+    categories: {
+      visual: validateCategory(categories.visual, 'visual', warnings),
+      audio: validateCategory(categories.audio, 'audio', warnings),
+      copy: validateCategory(categories.copy, 'copy', warnings),
+      captions: validateCategory(categories.captions, 'captions', warnings),
+    },
+    checks,
+    scriptRewrite: validateScriptRewrite(value.scriptRewrite, warnings),
+  };
+
+  return { data, warnings };
+};
+
+/**
+ * Model reply text → validated AnalysisData with any warnings attached
+ */
+export const parseAnalysisResponse = (text: string): AnalysisData => {
+  const { value, repaired } = extractJson(text);
+  const { data, warnings } = validateAnalysis(value);
+  if (repaired) warnings.unshift('The AI response was cut off or malformed and was repaired');
+
+  if (warnings.length > 0) {
+    console.warn(`⚠️ Analysis response had ${warnings.length} issue(s):`, warnings);
+  }
+  return { ...data, validationWarnings: warnings };
+};
+
+// ==========================================
+// COMPARISONS
+// ==========================================
+
+/**
+ * Model reply to a comparison prompt → judgement keyed by audit id.
+ * `labels` maps the letters the model saw (A, B, ...) to audit ids;
+ * a winner that isn't one of them makes the reply unusable.
+ */
+export const parseComparisonResponse = (text: string, labels: Record<string, string>): ComparisonJudgement => {
+  const { value } = extractJson(text);
+  if (!isObject(value)) throw new Error('The AI comparison was not a JSON object');
+
+  const resolve = (label: unknown, field: string): string => {
+    const id = labels[toText(label).toUpperCase()];
+    if (!id) throw new Error(`The AI comparison named no valid ${field}`);
+    return id;
+  };
+  const pick = (entry: unknown, field: string): ComparisonPick => {
+    const fields = isObject(entry) ? entry : {};
+    return { winner: resolve(fields.winner, field), explanation: toText(fields.explanation) };
+  };
+
+  return {
+    winner: resolve(value.winner, 'winner'),
+    reasons: Array.isArray(value.reasons) ? value.reasons.map(toText).filter(Boolean) : [],
+    hook: pick(value.hook, 'hook winner'),
+    cta: pick(value.cta, 'CTA winner'),
+    summary: toText(value.summary),
+  };
+};
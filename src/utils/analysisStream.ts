@@ -0,0 +1,106 @@
+// ==========================================
+// ANALYSIS STREAMING
+// Workers that see `Accept: text/event-stream` answer with server-sent
+// events instead of one JSON body, so partial results can be shown
+// while the model is still writing:
+//   event: received   {}                                  upload is on the server
+//   event: started    { model? }                          model call began
+//   event: progress   { progress: 0-100, message? }
+//   event: verdict    { overallScore, verdict }
+//   event: category   { key, category }                   one per category
+//   event: check      { check }                           one per check
+//   event: done       { text }                            full reply, validated like a JSON reply
+//   event: error      { message }
+// ==========================================
+
+import { AuditCategory, CheckItem, AnalysisData } from '../types';
+
+// ==========================================
+// TYPES
+// ==========================================
+export type AnalysisCategoryKey = keyof AnalysisData['categories'];
+
+export type AnalysisStreamEvent =
+  | { type: 'received' }
+  | { type: 'started'; model?: string }
+  | { type: 'progress'; progress: number; message?: string }
+  | { type: 'verdict'; overallScore: number; verdict: string }
+  | { type: 'category'; key: AnalysisCategoryKey; category: AuditCategory }
+  | { type: 'check'; check: CheckItem }
+  | { type: 'done'; text: string }
+  | { type: 'error'; message: string };
+
+/** What's arrived so far, for rendering before the final result */
+export interface PartialAnalysis {
+  overallScore?: number;
+  verdict?: string;
+  categories: Partial<Record<AnalysisCategoryKey, AuditCategory>>;
+  checks: CheckItem[];
+}
+
+export const EMPTY_PARTIAL_ANALYSIS: PartialAnalysis = { categories: {}, checks: [] };
+
+const EVENT_TYPES: AnalysisStreamEvent['type'][] = [
+  'received', 'started', 'progress', 'verdict', 'category', 'check', 'done', 'error',
+];
+
+// ==========================================
+// SSE PARSER
+// ==========================================
+
+/**
+ * Returns a function to feed raw stream text into; complete events are
+ * passed to onEvent, anything unrecognised is skipped
+ */
+export const createSseParser = (onEvent: (event: AnalysisStreamEvent) => void) => {
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let name = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) name = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (!EVENT_TYPES.includes(name as AnalysisStreamEvent['type'])) return;
+
+    try {
+      const payload = data.length ? JSON.parse(data.join('\n')) : {};
+      onEvent({ ...payload, type: name } as AnalysisStreamEvent);
+    } catch {
+      console.warn(`⚠️ Skipping malformed "${name}" event`);
+    }
+  };
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n?/g, '\n');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+    }
+  };
+};
+
+// ==========================================
+// PARTIAL RESULTS
+// ==========================================
+
+/**
+ * Fold a streamed event into the partial result. Only well-formed
+ * pieces are kept; the final reply is validated in full anyway.
+ */
+export const applyStreamEvent = (partial: PartialAnalysis, event: AnalysisStreamEvent): PartialAnalysis => {
+  switch (event.type) {
+    case 'verdict':
+      return { ...partial, overallScore: event.overallScore, verdict: event.verdict };
+    case 'category':
+      if (!event.category || typeof event.category.score !== 'number') return partial;
+      return { ...partial, categories: { ...partial.categories, [event.key]: event.category } };
+    case 'check':
+      if (!event.check?.label) return partial;
+      return { ...partial, checks: [...partial.checks, event.check] };
+    default:
+      return partial;
+  }
+};
@@ -0,0 +1,350 @@
+// ==========================================
+// AUDIO ANALYSIS
+// Decodes the audio track and measures what's actually in it
+// ==========================================
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+  duration: number; // in seconds
+}
+
+export interface SilenceReport {
+  silent: boolean;
+  peakDb: number;          // sample peak in dBFS
+  leadingSilence: number;  // seconds before the first audible sound
+  openingSilence: number;  // total silent seconds within the opening window
+}
+
+export interface LoudnessReport {
+  integrated: number; // LUFS
+  range: number;      // LU
+  truePeak: number;   // dBTP
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+const DECODE_SAMPLE_RATE = 48000;
+const MAX_DECODE_SIZE = 300 * 1024 * 1024; // Decoding reads the whole file into memory
+const WINDOW_SECONDS = 0.05;
+const SILENCE_THRESHOLD_DB = -50;
+export const OPENING_SECONDS = 3;
+
+// ITU-R BS.1770-4 / EBU Tech 3342 gating parameters
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const SHORT_TERM_SECONDS = 3;
+const SHORT_TERM_STEP_SECONDS = 1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+const TRUE_PEAK_OVERSAMPLING = 4;
+const TRUE_PEAK_TAPS = 12; // per phase
+
+// ==========================================
+// HELPERS
+// ==========================================
+const toDecibels = (amplitude: number): number =>
+  amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+
+/**
+ * RMS level in dBFS of each fixed-size window, averaged across channels
+ */
+const windowLevels = (audio: DecodedAudio, windowSize: number): number[] => {
+  const length = audio.channels[0]?.length || 0;
+  const levels: number[] = [];
+
+  for (let start = 0; start < length; start += windowSize) {
+    const end = Math.min(start + windowSize, length);
+    let sumSquares = 0;
+
+    for (const channel of audio.channels) {
+      for (let i = start; i < end; i++) {
+        sumSquares += channel[i] * channel[i];
+      }
+    }
+
+    const rms = Math.sqrt(sumSquares / ((end - start) * audio.channels.length));
+    levels.push(toDecibels(rms));
+  }
+
+  return levels;
+};
+
+// ==========================================
+// DECODE
+// ==========================================
+
+/**
+ * Decode the audio track of a video file. Resolves to null when the file
+ * has no audio track, the codec isn't supported, or the file is too big
+ * to decode in memory.
+ */
+export const decodeAudioTrack = async (file: Blob): Promise<DecodedAudio | null> => {
+  if (file.size > MAX_DECODE_SIZE) return null;
+
+  const OfflineContext = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  if (!OfflineContext) return null;
+
+  try {
+    // An offline context decodes without needing an audio output device
+    const context = new OfflineContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+
+    const channels: Float32Array[] = [];
+    for (let i = 0; i < buffer.numberOfChannels; i++) {
+      channels.push(buffer.getChannelData(i));
+    }
+
+    return { sampleRate: buffer.sampleRate, channels, duration: buffer.duration };
+  } catch (error) {
+    console.log('🔇 No decodable audio track:', error);
+    return null;
+  }
+};
+
+// ==========================================
+// SILENCE DETECTION
+// ==========================================
+
+/**
+ * Find silent stretches, with extra attention on the opening seconds
+ * where a silent start loses viewers who scroll with sound on
+ */
+export const analyzeSilence = (audio: DecodedAudio): SilenceReport => {
+  const windowSize = Math.max(1, Math.round(audio.sampleRate * WINDOW_SECONDS));
+  const windowSeconds = windowSize / audio.sampleRate;
+  const levels = windowLevels(audio, windowSize);
+
+  let peak = 0;
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const abs = Math.abs(channel[i]);
+      if (abs > peak) peak = abs;
+    }
+  }
+
+  const firstAudible = levels.findIndex(db => db >= SILENCE_THRESHOLD_DB);
+  const openingWindows = levels.slice(0, Math.ceil(OPENING_SECONDS / windowSeconds));
+  const silentOpeningWindows = openingWindows.filter(db => db < SILENCE_THRESHOLD_DB).length;
+
+  return {
+    silent: firstAudible === -1,
+    peakDb: toDecibels(peak),
+    leadingSilence: firstAudible === -1 ? audio.duration : firstAudible * windowSeconds,
+    openingSilence: Math.min(silentOpeningWindows * windowSeconds, audio.duration, OPENING_SECONDS),
+  };
+};
+
+// ==========================================
+// LOUDNESS (ITU-R BS.1770)
+// ==========================================
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+/**
+ * K-weighting filter pair (pre-filter shelf + RLB high-pass) for any
+ * sample rate, using the analog prototypes from BS.1770
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf: Biquad = {
+    b: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+
+  return output;
+};
+
+/**
+ * Channel weights from BS.1770: surrounds count 1.41x, LFE is ignored
+ */
+const channelWeights = (count: number): number[] =>
+  count === 6 ? [1, 1, 1, 0, 1.41, 1.41] : new Array(count).fill(1);
+
+/**
+ * Weighted mean square of every gating block of the given length
+ */
+const blockPowers = (
+  weighted: Float32Array[],
+  weights: number[],
+  blockSize: number,
+  stepSize: number
+): number[] => {
+  const length = weighted[0]?.length || 0;
+  const powers: number[] = [];
+
+  for (let start = 0; start + blockSize <= length; start += stepSize) {
+    let power = 0;
+    weighted.forEach((channel, c) => {
+      if (weights[c] === 0) return;
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += weights[c] * (sum / blockSize);
+    });
+    powers.push(power);
+  }
+
+  return powers;
+};
+
+const powerToLoudness = (power: number): number =>
+  power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const integratedLoudness = (powers: number[]): number => {
+  const aboveAbsolute = powers.filter(p => powerToLoudness(p) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = powerToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(p => powerToLoudness(p) > relativeGate);
+
+  return gated.length > 0 ? powerToLoudness(mean(gated)) : -Infinity;
+};
+
+/**
+ * Loudness range (EBU Tech 3342): spread between the 10th and 95th
+ * percentile of gated short-term loudness
+ */
+const loudnessRange = (powers: number[]): number => {
+  const aboveAbsolute = powers.filter(p => powerToLoudness(p) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return 0;
+
+  const relativeGate = powerToLoudness(mean(aboveAbsolute)) + RANGE_RELATIVE_GATE_LU;
+  const loudness = aboveAbsolute
+    .map(powerToLoudness)
+    .filter(l => l > relativeGate)
+    .sort((a, b) => a - b);
+  if (loudness.length < 2) return 0;
+
+  const percentile = (q: number) => loudness[Math.min(loudness.length - 1, Math.round(q * (loudness.length - 1)))];
+  return percentile(0.95) - percentile(0.1);
+};
+
+/**
+ * Polyphase interpolation filter (Hann-windowed sinc) for 4x oversampling
+ */
+const oversamplingPhases = (): Float32Array[] => {
+  const phases: Float32Array[] = [];
+  const half = TRUE_PEAK_TAPS / 2;
+
+  for (let p = 0; p < TRUE_PEAK_OVERSAMPLING; p++) {
+    const phase = new Float32Array(TRUE_PEAK_TAPS);
+    const fraction = p / TRUE_PEAK_OVERSAMPLING;
+    for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+      const t = k - half + 1 - fraction;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / (half + 1));
+      phase[k] = sinc * window;
+    }
+    phases.push(phase);
+  }
+
+  return phases;
+};
+
+/**
+ * True peak via 4x oversampling. Only samples within 6dB of the sample
+ * peak are interpolated, since inter-sample peaks can't exceed that.
+ */
+const truePeak = (channels: Float32Array[]): number => {
+  let samplePeak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const abs = Math.abs(channel[i]);
+      if (abs > samplePeak) samplePeak = abs;
+    }
+  }
+  if (samplePeak === 0) return -Infinity;
+
+  const phases = oversamplingPhases();
+  const half = TRUE_PEAK_TAPS / 2;
+  const candidateThreshold = samplePeak / 2;
+  let peak = samplePeak;
+
+  for (const channel of channels) {
+    for (let i = half; i < channel.length - half; i++) {
+      if (Math.abs(channel[i]) < candidateThreshold) continue;
+
+      for (const phase of phases) {
+        let value = 0;
+        for (let k = 0; k < TRUE_PEAK_TAPS; k++) {
+          value += channel[i - half + 1 + k] * phase[k];
+        }
+        const abs = Math.abs(value);
+        if (abs > peak) peak = abs;
+      }
+    }
+  }
+
+  return toDecibels(peak);
+};
+
+/**
+ * Measure integrated loudness, loudness range and true peak
+ */
+export const measureLoudness = (audio: DecodedAudio): LoudnessReport => {
+  const filters = kWeightingFilters(audio.sampleRate);
+  const weighted = audio.channels.map(channel =>
+    filters.reduce((signal, filter) => applyBiquad(signal, filter), channel)
+  );
+  const weights = channelWeights(audio.channels.length);
+
+  const momentary = blockPowers(
+    weighted,
+    weights,
+    Math.round(BLOCK_SECONDS * audio.sampleRate),
+    Math.round(BLOCK_STEP_SECONDS * audio.sampleRate)
+  );
+  const shortTerm = blockPowers(
+    weighted,
+    weights,
+    Math.round(SHORT_TERM_SECONDS * audio.sampleRate),
+    Math.round(SHORT_TERM_STEP_SECONDS * audio.sampleRate)
+  );
+
+  return {
+    integrated: integratedLoudness(momentary),
+    range: loudnessRange(shortTerm),
+    truePeak: truePeak(audio.channels),
+  };
+};
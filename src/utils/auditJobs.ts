@@ -0,0 +1,39 @@
+// ==========================================
+// AUDIT JOBS
+// Helpers for the `audit_jobs` rows that track each run. The run itself
+// happens in the browser tab that started it; that tab bumps the job's
+// updated_at while it works, so a job that has gone quiet was cut off
+// (tab closed, crash) and can be resumed from the dashboard.
+// ==========================================
+
+import { AuditJob, AuditJobStatus } from '../types';
+
+// How often a running tab touches its job, and how long before silence means it died.
+// Analysis can run minutes without progress events, so this doesn't rely on them.
+export const JOB_HEARTBEAT_MS = 20000;
+const JOB_STALE_MS = 90000;
+
+export const JOB_STATUS_LABELS: Record<AuditJobStatus, string> = {
+  queued: 'Queued',
+  compressing: 'Compressing',
+  uploading: 'Uploading',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+/**
+ * Still meant to be running
+ */
+export const isJobActive = (job: AuditJob): boolean => job.status !== 'done' && job.status !== 'failed';
+
+/**
+ * Active on paper, but no tab has touched it recently
+ */
+export const isJobInterrupted = (job: AuditJob, now = Date.now()): boolean =>
+  isJobActive(job) && now - new Date(job.updated_at).getTime() > JOB_STALE_MS;
+
+/**
+ * Failed or cut off - the user can pick it up again
+ */
+export const canResumeJob = (job: AuditJob): boolean => job.status === 'failed' || isJobInterrupted(job);
@@ -0,0 +1,296 @@
+// ==========================================
+// AUDIT RUNNER
+// One audit from video to saved record: specs, compression, upload,
+// analysis and the insert, tracked in audit_jobs along the way.
+// NewAudit runs one at a time; batch audits run several through the
+// same path with a shared slot for the CPU-heavy local steps.
+// ==========================================
+
+import { supabase } from '../context/AuthContext';
+import { AnalysisData, AuditJob, AuditJobStatus, PlatformProfile, TechnicalAnalysis, TechnicalScoringConfig } from '../types';
+import { compressVideo, extractFramesAndAudio, isAbortError, UPLOAD_TARGET_MB, CompressionResult, ExtractedMedia } from './compression';
+import { hashFile, getCachedCompression, cacheCompression } from './contentHash';
+import { measureVideo, evaluateTechnicalAnalysis, scoreTechnicalAnalysis, VideoMeasurements } from './technicalAnalysis';
+import { getAnalysisProvider } from './analysisProviders';
+import { AnalysisStreamEvent } from './analysisStream';
+import { JOB_HEARTBEAT_MS } from './auditJobs';
+
+// ==========================================
+// TYPES
+// ==========================================
+export type AuditStage = 'compressing' | 'uploading' | 'analyzing';
+
+export interface AuditRunOptions {
+  userId: string;
+  licenseKey: string;
+  profile: PlatformProfile;
+  scoringConfig: TechnicalScoringConfig;
+  deepAnalysis: boolean;
+  uploadFrames: boolean;
+  /** The video to audit - not needed when resuming from a cached upload */
+  file?: File | null;
+  /** Work already started on the file, so it isn't done twice */
+  contentHash?: Promise<string> | null;
+  technicalAnalysis?: TechnicalAnalysis | null;
+  measuring?: Promise<VideoMeasurements> | null;
+  /** Job to continue instead of starting a new one */
+  resumeJob?: AuditJob | null;
+  /** Upload cached for resumeJob; skips specs and compression */
+  resumeUpload?: CompressionResult | null;
+  /** Groups the audits of one batch for the ranking page */
+  batchId?: string | null;
+  signal?: AbortSignal;
+  /** Runs the CPU-heavy local steps - lets a batch keep them one at a time */
+  localSlot?: <T>(task: () => Promise<T>) => Promise<T>;
+  onStage?: (stage: AuditStage) => void;
+  /** Null while analyzing until the worker streams real progress */
+  onProgress?: (progress: number | null, message?: string) => void;
+  onCompressed?: (result: CompressionResult | null) => void;
+  onEvent?: (event: AnalysisStreamEvent) => void;
+}
+
+export interface AuditRunResult {
+  auditId: string | null;
+  data: AnalysisData;
+}
+
+// Anything smaller goes up as-is
+const COMPRESS_ABOVE_BYTES = 20 * 1024 * 1024;
+
+// ==========================================
+// JOB BOOKKEEPING
+// ==========================================
+
+/**
+ * Best-effort write to a run's audit_jobs row - bookkeeping
+ * failures never stop the audit itself
+ */
+const updateJob = async (jobId: string | null, patch: Partial<AuditJob>) => {
+  if (!supabase || !jobId) return;
+  const { error } = await supabase
+    .from('audit_jobs')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) console.warn('⚠️ Could not update audit job:', error.message);
+};
+
+const createJob = async (fields: Partial<AuditJob>): Promise<string | null> => {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('audit_jobs')
+    .insert({ ...fields, status: 'queued', progress: 0, updated_at: new Date().toISOString() })
+    .select('id')
+    .single();
+  if (error) console.warn('⚠️ Could not create audit job:', error.message);
+  return data?.id ?? null;
+};
+
+// ==========================================
+// CONCURRENCY
+// ==========================================
+
+/**
+ * Wraps tasks so at most `max` run at once; the rest wait their turn
+ */
+export const createLimiter = (max: number) => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T,>(task: () => Promise<T>): Promise<T> => {
+    if (running >= max) await new Promise<void>((resolve) => waiting.push(resolve));
+    running++;
+    try {
+      return await task();
+    } finally {
+      running--;
+      waiting.shift()?.();
+    }
+  };
+};
+
+// ==========================================
+// RUN
+// ==========================================
+export const runAudit = async (options: AuditRunOptions): Promise<AuditRunResult> => {
+  const { userId, file, resumeJob, deepAnalysis, uploadFrames, signal } = options;
+  const localSlot = options.localSlot ?? (<T,>(task: () => Promise<T>) => task());
+  const resumeUpload = resumeJob ? options.resumeUpload : null;
+  if (!file && !resumeUpload) throw new Error('No video to audit');
+
+  const videoName = resumeUpload ? resumeJob!.video_name : file!.name;
+  const videoSizeMb = resumeUpload ? resumeJob!.video_size_mb : parseFloat((file!.size / 1024 / 1024).toFixed(2));
+  const profile = (resumeUpload && resumeJob!.platform_profile) || options.profile;
+
+  const job = { id: null as string | null, status: 'queued' as AuditJobStatus, progress: 0 as number | null };
+  // Job writes go out one after another, so a slow heartbeat or stage write
+  // can't land after the final status and mark a finished job as running again
+  let jobWrites = Promise.resolve();
+  const writeJob = (patch: Partial<AuditJob>) =>
+    (jobWrites = jobWrites
+      .then(() => updateJob(job.id, patch))
+      .catch((error) => console.warn('⚠️ Could not update audit job:', error)));
+  const report = (progress: number | null, message?: string) => {
+    job.progress = progress;
+    options.onProgress?.(progress, message);
+  };
+  const enterStage = (stage: AuditStage, message: string) => {
+    job.status = stage;
+    writeJob({ status: stage, progress: 0 });
+    options.onStage?.(stage);
+    report(0, message);
+  };
+  const heartbeat = setInterval(() => writeJob({ status: job.status, progress: job.progress ?? 0 }), JOB_HEARTBEAT_MS);
+
+  try {
+    const contentHash = resumeUpload
+      ? resumeJob!.content_hash
+      : await (options.contentHash || localSlot(() => hashFile(file!, { signal }))).catch((e) => {
+          if (signal?.aborted) throw e;
+          return null;
+        });
+
+    // Pick the resumed job back up (also when its video was re-selected), or start a new one
+    const jobOptions = { deepAnalysis, uploadFrames };
+    if (resumeJob && (resumeUpload || (contentHash && contentHash === resumeJob.content_hash))) {
+      job.id = resumeJob.id;
+      writeJob({ status: 'queued', progress: 0, error: null, options: jobOptions });
+    } else {
+      job.id = await createJob({
+        user_id: userId,
+        video_name: videoName,
+        video_size_mb: videoSizeMb,
+        content_hash: contentHash,
+        options: jobOptions,
+      });
+    }
+
+    // Stage 0: Technical Analysis (if not already done)
+    let techAnalysis = resumeUpload ? resumeJob!.technical_analysis ?? null : options.technicalAnalysis ?? null;
+    if (!techAnalysis && !resumeUpload) {
+      report(0, 'Analyzing video specs...');
+      const measured = await localSlot(() => options.measuring || measureVideo(file!, { signal }));
+      techAnalysis = evaluateTechnicalAnalysis(measured, profile);
+    }
+    writeJob({ technical_analysis: techAnalysis, platform_profile: profile });
+
+    // Stage 1: Compress
+    enterStage('compressing', 'Preparing...');
+    let upload: File | ExtractedMedia;
+
+    if (resumeUpload) {
+      // Resuming a job from the upload this browser cached for it
+      console.log(`⏯️ Resuming job ${job.id} from cached upload`);
+      report(100, 'Using previously compressed video');
+      upload = resumeUpload.file;
+      options.onCompressed?.(resumeUpload);
+    } else if (uploadFrames) {
+      // Stills + audio instead of the video itself
+      upload = await localSlot(() => extractFramesAndAudio(file!, report, { signal }));
+      options.onCompressed?.(null);
+    } else {
+      const cached = contentHash && file!.size > COMPRESS_ABOVE_BYTES ? await getCachedCompression(contentHash) : null;
+
+      let result: CompressionResult;
+      if (cached) {
+        // Compressed before (e.g. a standard run before a deep one)
+        console.log('💾 Using cached compressed video');
+        report(100, 'Using previously compressed video');
+        result = cached;
+      } else if (file!.size > COMPRESS_ABOVE_BYTES) {
+        result = await localSlot(() => compressVideo(file!, report, { signal, targetSizeMB: UPLOAD_TARGET_MB }));
+        if (contentHash && result.method !== 'skipped') cacheCompression(contentHash, result);
+      } else {
+        // File is small, skip compression - but keep a copy so the job can be resumed
+        result = {
+          file: file!,
+          method: 'skipped',
+          originalSize: file!.size,
+          compressedSize: file!.size,
+          duration: 0,
+          audioPreserved: true,
+        };
+        if (contentHash) cacheCompression(contentHash, result);
+      }
+      upload = result.file;
+      options.onCompressed?.(result);
+    }
+
+    // Stage 2: Upload
+    enterStage('uploading', 'Uploading to server...');
+    const provider = getAnalysisProvider(deepAnalysis ? 'deep' : 'standard');
+    console.log(`🤖 Analyzing ${videoName} with ${provider.label}`);
+
+    // Stage 3: Analyze - progress and partial results come from the stream
+    let uploadComplete = false;
+    const startAnalyzing = () => {
+      if (uploadComplete) return;
+      uploadComplete = true;
+      enterStage('analyzing', deepAnalysis ? 'Deep AI analysis in progress...' : 'AI analyzing your ad...');
+      // No percentage until the worker reports one (if it ever does)
+      report(null);
+    };
+
+    const data = await provider.analyze({
+      input: upload,
+      licenseKey: options.licenseKey,
+      signal,
+      onUploadProgress: (p) => {
+        if (uploadComplete) return;
+        report(p);
+        if (p === 100) startAnalyzing();
+      },
+      onEvent: (event) => {
+        if (event.type === 'received' || event.type === 'started') startAnalyzing();
+        if (event.type === 'started' && event.model) report(job.progress, `${event.model} is watching your ad...`);
+        if (event.type === 'progress') {
+          startAnalyzing();
+          report(Math.min(100, Math.round(event.progress)), event.message);
+        }
+        options.onEvent?.(event);
+      },
+    });
+    report(100, 'Complete!');
+
+    // Add technical analysis to the data
+    data.technicalAnalysis = techAnalysis || undefined;
+
+    // Save to database - not once cancelled, so a cancelled run doesn't use up an audit
+    signal?.throwIfAborted();
+    let auditId: string | null = null;
+    if (supabase) {
+      const { data: insertedAudit, error } = await supabase
+        .from('audits')
+        .insert({
+          user_id: userId,
+          video_name: videoName,
+          video_size_mb: videoSizeMb,
+          overall_score: data.overallScore,
+          verdict: data.verdict,
+          categories: data.categories,
+          checks: data.checks,
+          script_rewrite: data.scriptRewrite || null,
+          technical_analysis: techAnalysis || null,
+          technical_score: techAnalysis ? scoreTechnicalAnalysis(techAnalysis, options.scoringConfig) : null,
+          platform_profile: profile,
+          content_hash: contentHash,
+          validation_warnings: data.validationWarnings?.length ? data.validationWarnings : null,
+          batch_id: options.batchId || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      auditId = insertedAudit.id;
+    }
+
+    job.status = 'done';
+    await writeJob({ status: 'done', progress: 100, audit_id: auditId });
+    return { auditId, data };
+  } catch (e: any) {
+    job.status = 'failed';
+    await writeJob({ status: 'failed', error: isAbortError(e) ? 'Cancelled' : e?.message || 'Analysis failed' });
+    throw e;
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
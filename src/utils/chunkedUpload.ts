@@ -0,0 +1,205 @@
+// ==========================================
+// CHUNKED UPLOADS
+// Sends large videos to the analysis worker in pieces so a dropped
+// connection only costs the current chunk. Protocol:
+//   POST {worker}uploads            { fileName, size, mimeType, licenseKey } → { sessionId, offset }
+//   GET  {worker}uploads/{id}       → { offset }
+//   PUT  {worker}uploads/{id}       Upload-Offset header + chunk bytes → { offset }
+// The analysis request then references the session instead of carrying the file.
+// A worker without the uploads endpoint (404/405) gets the file in one request instead.
+// See dev-upload-server.js for a local stand-in.
+// ==========================================
+
+export interface ChunkedUploadOptions {
+  endpoint: string;
+  licenseKey: string;
+  onProgress: (progress: number) => void;
+  signal?: AbortSignal;
+  chunkSize?: number;
+  maxRetries?: number;
+}
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const SESSION_STORAGE_PREFIX = 'upload-session:';
+
+// ==========================================
+// SESSION PERSISTENCE
+// ==========================================
+
+// Same file + same worker → same session, so a reload resumes too
+const sessionKey = (endpoint: string, file: File) =>
+  `${SESSION_STORAGE_PREFIX}${endpoint}|${file.name}|${file.size}|${file.lastModified}`;
+
+const loadSession = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (key: string, sessionId: string | null) => {
+  try {
+    if (sessionId) localStorage.setItem(key, sessionId);
+    else localStorage.removeItem(key);
+  } catch {
+    // Private mode - resuming within this page still works
+  }
+};
+
+// ==========================================
+// REQUESTS
+// ==========================================
+const readOffset = async (response: Response): Promise<number> => {
+  if (!response.ok) throw new Error(`Upload server returned ${response.status}`);
+  const { offset } = await response.json();
+  if (typeof offset !== 'number') throw new Error('Upload server sent no offset');
+  return offset;
+};
+
+/**
+ * New session ID, or null if the worker has no uploads endpoint
+ */
+const createSession = async (file: File, options: ChunkedUploadOptions): Promise<string | null> => {
+  const response = await fetch(`${options.endpoint}uploads`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName: file.name,
+      size: file.size,
+      mimeType: file.type,
+      licenseKey: options.licenseKey,
+    }),
+    signal: options.signal,
+  });
+  if (response.status === 404 || response.status === 405) return null;
+  if (!response.ok) throw new Error(`Could not start upload (${response.status})`);
+  const { sessionId } = await response.json();
+  return sessionId;
+};
+
+/**
+ * Offset the server has safely stored, or null if the session is gone
+ */
+const getServerOffset = async (endpoint: string, sessionId: string, signal?: AbortSignal): Promise<number | null> => {
+  const response = await fetch(`${endpoint}uploads/${sessionId}`, { signal });
+  if (response.status === 404) return null;
+  return readOffset(response);
+};
+
+/**
+ * PUT one chunk, reporting bytes sent within it as they go
+ */
+const putChunk = (
+  endpoint: string,
+  sessionId: string,
+  offset: number,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const done = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+    xhr.onload = () => {
+      done();
+      readOffset(new Response(xhr.response, { status: xhr.status })).then(resolve, reject);
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new Error('Network error'));
+    };
+    xhr.ontimeout = () => {
+      done();
+      reject(new Error('Chunk upload timed out'));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.open('PUT', `${endpoint}uploads/${sessionId}`);
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.timeout = 60000;
+    xhr.send(chunk);
+  });
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+// ==========================================
+// UPLOAD
+// ==========================================
+
+/**
+ * Upload a file in chunks, resuming from wherever the server got to.
+ * Retries each failure with exponential backoff; returns the session ID,
+ * or null straight away if the worker doesn't take chunked uploads.
+ */
+export const uploadInChunks = async (file: File, options: ChunkedUploadOptions): Promise<string | null> => {
+  const { endpoint, onProgress, signal, chunkSize = CHUNK_SIZE, maxRetries = MAX_RETRIES } = options;
+  const key = sessionKey(endpoint, file);
+
+  let sessionId = loadSession(key);
+  let offset = 0;
+  let failures = 0;
+
+  while (true) {
+    signal?.throwIfAborted();
+    try {
+      // Resume an earlier session if the server still has it
+      const serverOffset = sessionId ? await getServerOffset(endpoint, sessionId, signal) : null;
+      if (sessionId && serverOffset !== null) {
+        if (serverOffset > 0 && offset === 0) console.log(`⏯️ Resuming upload ${sessionId} at ${(serverOffset / 1024 / 1024).toFixed(1)}MB`);
+        offset = serverOffset;
+      } else {
+        sessionId = await createSession(file, options);
+        if (!sessionId) {
+          console.log('📤 Worker has no chunked uploads, sending the file in one request');
+          return null;
+        }
+        saveSession(key, sessionId);
+        offset = 0;
+        console.log(`📤 Upload session ${sessionId} started`);
+      }
+
+      while (offset < file.size) {
+        const chunk = file.slice(offset, offset + chunkSize);
+        const start = offset;
+        offset = await putChunk(endpoint, sessionId, start, chunk, (loaded) => {
+          onProgress(Math.floor(((start + loaded) / file.size) * 100));
+        }, signal);
+        failures = 0;
+      }
+
+      saveSession(key, null);
+      onProgress(100);
+      return sessionId;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+
+      failures++;
+      if (failures > maxRetries) {
+        throw new Error(`Upload failed after ${maxRetries} retries: ${error?.message || error}`);
+      }
+
+      // 1s, 2s, 4s... with jitter so retries from flaky networks don't sync up
+      const delay = BASE_RETRY_DELAY_MS * 2 ** (failures - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`⚠️ Upload interrupted (${error?.message || error}), retrying in ${(delay / 1000).toFixed(1)}s`);
+      await wait(delay, signal);
+    }
+  }
+};
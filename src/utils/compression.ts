@@ -1,17 +1,59 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { fetchFile } from '@ffmpeg/util';
+import { isWebCodecsSupported, transcodeWithWebCodecs } from './webcodecs';
 
 // ==========================================
 // TYPES
 // ==========================================
+export type CompressionMethod = 'webcodecs' | 'ffmpeg' | 'canvas';
+
 export interface CompressionResult {
   file: File;
-  method: 'ffmpeg' | 'canvas' | 'skipped';
+  method: CompressionMethod | 'skipped';
   originalSize: number;
   compressedSize: number;
   duration: number; // in seconds
+  audioPreserved: boolean; // false when the output lost the original's audio
 }
 
+// ==========================================
+// FFMPEG CORE
+// ==========================================
+
+// Self-hosted by default (see vite.config.ts); set FFMPEG_CORE_URL to use a mirror
+const FFMPEG_CORE_URL = (process.env.FFMPEG_CORE_URL || '/ffmpeg').replace(/\/$/, '');
+
+// Pinned at build time from the installed @ffmpeg/core packages
+const FFMPEG_CORE_INTEGRITY: Record<string, string> = JSON.parse(process.env.FFMPEG_CORE_INTEGRITY || '{}');
+
+export type FFmpegCoreType = 'mt' | 'st';
+
+/**
+ * Fetch a core file, verify it against its pinned hash and hand it
+ * to FFmpeg as a blob URL
+ */
+const fetchCoreFile = async (core: FFmpegCoreType, name: string, mimeType: string): Promise<string> => {
+  const file = `${core}/${name}`;
+  const response = await fetch(`${FFMPEG_CORE_URL}/${file}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch FFmpeg core (${file}): ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+
+  const expected = FFMPEG_CORE_INTEGRITY[file];
+  if (expected) {
+    const digest = await crypto.subtle.digest('SHA-384', data);
+    const actual = 'sha384-' + btoa(String.fromCharCode(...new Uint8Array(digest)));
+    if (actual !== expected) {
+      throw new Error(`FFmpeg core integrity check failed for ${file}`);
+    }
+  } else {
+    console.warn(`⚠️ No pinned hash for ${file}, skipping integrity check`);
+  }
+
+  return URL.createObjectURL(new Blob([data], { type: mimeType }));
+};
+
 // ==========================================
 // FFMPEG SINGLETON
 // ==========================================
@@ -19,6 +61,22 @@ let ffmpeg: FFmpeg | null = null;
 let ffmpegLoaded = false;
 let ffmpegLoading = false;
 
+// ==========================================
+// CANCELLATION
+// ==========================================
+const abortError = () => new DOMException('Compression cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as any)?.name === 'AbortError';
+
+/**
+ * Kill the FFmpeg worker mid-job. The next load starts a fresh instance.
+ */
+const terminateFFmpeg = () => {
+  ffmpeg?.terminate();
+  ffmpeg = null;
+  ffmpegLoaded = false;
+};
+
 // ==========================================
 // LOAD FFMPEG
 // ==========================================
@@ -46,21 +104,23 @@ export const loadFFmpeg = async (onProgress?: (message: string) => void): Promis
       console.log('[FFmpeg]', message);
     });
 
-    // Load FFmpeg core from CDN
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-    
+    const core = getFFmpegCoreType();
     await ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+      coreURL: await fetchCoreFile(core, 'ffmpeg-core.js', 'text/javascript'),
+      wasmURL: await fetchCoreFile(core, 'ffmpeg-core.wasm', 'application/wasm'),
+      ...(core === 'mt' && {
+        workerURL: await fetchCoreFile(core, 'ffmpeg-core.worker.js', 'text/javascript'),
+      }),
     });
 
     ffmpegLoaded = true;
     onProgress?.('FFmpeg ready!');
-    console.log('✅ FFmpeg.wasm loaded successfully!');
+    console.log(`✅ FFmpeg.wasm loaded successfully! (${core === 'mt' ? 'multi-threaded' : 'single-threaded'})`);
     
     return ffmpeg;
   } catch (error) {
     console.error('❌ Failed to load FFmpeg:', error);
+    ffmpeg = null;
     ffmpegLoading = false;
     throw error;
   } finally {
@@ -68,6 +128,132 @@ export const loadFFmpeg = async (onProgress?: (message: string) => void): Promis
   }
 };
 
+// ==========================================
+// TARGET-SIZE ENCODING
+// ==========================================
+
+/** Keeps uploads under the analysis workers' request limit, with headroom for the form fields */
+export const UPLOAD_TARGET_MB = 18;
+
+const AUDIO_KBPS = 64;
+const OUTPUT_FPS = 24;
+
+// Container overhead and rate-control overshoot
+const SIZE_HEADROOM = 0.92;
+
+// Below this many bits per pixel, on-screen text smears into blocks
+const MIN_BITS_PER_PIXEL = 0.04;
+const OUTPUT_HEIGHTS = [720, 540, 480, 360];
+
+// First encode plus one at a corrected bitrate before handing over to FFmpeg
+const WEBCODECS_SIZE_ATTEMPTS = 2;
+
+export interface TargetEncoding {
+  videoKbps: number;
+  height: number;
+}
+
+/**
+ * Video bitrate that lands the whole file under targetSizeMB, at the tallest
+ * output height that still gets enough bits per pixel to keep text legible.
+ * Null when even the smallest height can't fit.
+ */
+export const planTargetEncoding = (
+  targetSizeMB: number,
+  duration: number,
+  aspectRatio: number,
+  maxHeight = OUTPUT_HEIGHTS[0],
+  audioKbps = AUDIO_KBPS
+): TargetEncoding | null => {
+  if (!(duration > 0) || !(aspectRatio > 0)) return null;
+
+  const totalKbps = (targetSizeMB * 1024 * 1024 * 8 * SIZE_HEADROOM) / 1000 / duration;
+  const videoKbps = Math.floor(totalKbps - audioKbps);
+  if (videoKbps <= 0) return null;
+
+  const height = OUTPUT_HEIGHTS.filter(h => h <= maxHeight).find(h => {
+    const pixelsPerSecond = h * h * aspectRatio * OUTPUT_FPS;
+    return (videoKbps * 1000) / pixelsPerSecond >= MIN_BITS_PER_PIXEL;
+  });
+
+  return height ? { videoKbps, height } : null;
+};
+
+/**
+ * Duration and frame size from the browser's own demuxer
+ */
+const probeVideo = (file: File): Promise<{ duration: number; width: number; height: number } | null> =>
+  new Promise((resolve) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    const done = (result: { duration: number; width: number; height: number } | null) => {
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => done({ duration: video.duration, width: video.videoWidth, height: video.videoHeight });
+    video.onerror = () => done(null);
+    video.src = url;
+  });
+
+// ==========================================
+// FFMPEG JOBS
+// ==========================================
+interface EncodeStage {
+  from: number;
+  to: number;
+  label: string;
+}
+
+/**
+ * Run a job on the shared FFmpeg instance. Multi-step jobs report progress
+ * through stages on one bar, the listener is removed when the job ends,
+ * and aborting the signal terminates FFmpeg mid-exec.
+ */
+const runFFmpegJob = async <T>(
+  onProgress: (progress: number, message: string) => void,
+  signal: AbortSignal | undefined,
+  job: (ffmpegInstance: FFmpeg, setStage: (stage: EncodeStage) => void) => Promise<T>
+): Promise<T> => {
+  // Load FFmpeg
+  signal?.throwIfAborted();
+  const ffmpegInstance = await loadFFmpeg((msg) => onProgress(5, msg));
+  signal?.throwIfAborted();
+
+  // Terminating is the only way to stop a running exec
+  const onAbort = () => terminateFFmpeg();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // Set up progress tracking (removed again when this job ends)
+  let stage: EncodeStage = { from: 20, to: 90, label: 'Compressing' };
+  let lastProgress = stage.from;
+  const setStage = (next: EncodeStage) => {
+    stage = next;
+    lastProgress = next.from;
+  };
+  const handleProgress = ({ progress }: { progress: number }) => {
+    const currentProgress = stage.from + Math.floor(progress * (stage.to - stage.from));
+    if (currentProgress > lastProgress) {
+      lastProgress = currentProgress;
+      onProgress(currentProgress, `${stage.label}... ${Math.floor(progress * 100)}%`);
+    }
+  };
+  ffmpegInstance.on('progress', handleProgress);
+
+  try {
+    return await job(ffmpegInstance, setStage);
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log('🛑 FFmpeg job cancelled');
+      throw abortError();
+    }
+    throw error;
+  } finally {
+    ffmpegInstance.off('progress', handleProgress);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
 // ==========================================
 // COMPRESS VIDEO WITH FFMPEG
 // ==========================================
@@ -78,12 +264,16 @@ export const compressVideoFFmpeg = async (
     maxSizeMB?: number;
     maxHeight?: number;
     targetBitrate?: string;
+    targetSizeMB?: number;
+    signal?: AbortSignal;
   }
 ): Promise<File> => {
   const {
     maxSizeMB = 20,  // Only compress files larger than 20MB
     maxHeight = 540, // Reduced to 540p for faster processing
-    targetBitrate = '1M'
+    targetBitrate = '1M',
+    targetSizeMB,
+    signal,
   } = options || {};
 
   // Skip if already small enough
@@ -96,74 +286,349 @@ export const compressVideoFFmpeg = async (
   console.log(`🗜️ Compressing ${(file.size / 1024 / 1024).toFixed(1)}MB video...`);
   onProgress(0, 'Initializing encoder...');
 
-  // Load FFmpeg
-  const ffmpegInstance = await loadFFmpeg((msg) => onProgress(5, msg));
-  
-  onProgress(10, 'Reading video file...');
-
-  // Write input file to FFmpeg virtual filesystem
-  const inputName = 'input' + getExtension(file.name);
-  const outputName = 'output.mp4';
-  
-  await ffmpegInstance.writeFile(inputName, await fetchFile(file));
-  
-  onProgress(20, 'Analyzing video...');
-
-  // Set up progress tracking
-  let lastProgress = 20;
-  ffmpegInstance.on('progress', ({ progress }) => {
-    const currentProgress = 20 + Math.floor(progress * 70); // 20-90%
-    if (currentProgress > lastProgress) {
-      lastProgress = currentProgress;
-      onProgress(currentProgress, `Compressing... ${Math.floor(progress * 100)}%`);
+  // Work out the bitrate for target-size mode before loading anything
+  let plan: TargetEncoding | null = null;
+  if (targetSizeMB) {
+    const probe = await probeVideo(file);
+    plan = probe && planTargetEncoding(targetSizeMB, probe.duration, probe.width / probe.height);
+    if (!plan) {
+      console.warn(`⚠️ Can't fit ${targetSizeMB}MB at a legible quality, using single-pass`);
+    }
+  }
+
+  return runFFmpegJob(onProgress, signal, async (ffmpegInstance, setStage) => {
+    onProgress(10, 'Reading video file...');
+
+    // Write input file to FFmpeg virtual filesystem
+    const inputName = 'input' + getExtension(file.name);
+    const outputName = 'output.mp4';
+    await ffmpegInstance.writeFile(inputName, await fetchFile(file));
+
+    const targetBytes = targetSizeMB ? targetSizeMB * 1024 * 1024 : Infinity;
+    let compressedBlob: Blob;
+    try {
+      onProgress(20, 'Analyzing video...');
+
+      let encoded = false;
+      if (plan) {
+        try {
+          await encodeTwoPass(ffmpegInstance, inputName, outputName, plan, setStage);
+          encoded = true;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.warn('⚠️ Two-pass encode failed, using single-pass:', error);
+        }
+      }
+      if (!encoded) {
+        setStage({ from: plan ? 50 : 20, to: 90, label: 'Compressing' });
+        await encodeSinglePass(ffmpegInstance, inputName, outputName, maxHeight, targetBitrate);
+      }
+
+      compressedBlob = new Blob([await ffmpegInstance.readFile(outputName)], { type: 'video/mp4' });
+
+      // Two-pass can still land a little high on short or very busy videos -
+      // one more pass at a bitrate scaled down by the overshoot
+      if (compressedBlob.size > targetBytes && plan && encoded) {
+        const retry = { ...plan, videoKbps: Math.floor(plan.videoKbps * (targetBytes * SIZE_HEADROOM) / compressedBlob.size) };
+        console.warn(`⚠️ Output is ${(compressedBlob.size / 1024 / 1024).toFixed(1)}MB, over the ${targetSizeMB}MB target - re-encoding`);
+        await encodeTwoPass(ffmpegInstance, inputName, outputName, retry, setStage);
+        compressedBlob = new Blob([await ffmpegInstance.readFile(outputName)], { type: 'video/mp4' });
+      }
+    } finally {
+      // Clean up
+      await ffmpegInstance.deleteFile(inputName).catch(() => {});
+      await ffmpegInstance.deleteFile(outputName).catch(() => {});
+    }
+
+    onProgress(90, 'Finalizing...');
+
+    // compressVideo falls back to the next method rather than uploading an over-limit file
+    if (compressedBlob.size > targetBytes) {
+      throw new Error(`FFmpeg output is ${(compressedBlob.size / 1024 / 1024).toFixed(1)}MB, over the ${targetSizeMB}MB target`);
     }
+
+    // Create new File object
+    const compressedFile = new File(
+      [compressedBlob],
+      file.name.replace(/\.[^.]+$/, '_compressed.mp4'),
+      { type: 'video/mp4' }
+    );
+
+    const originalMB = (file.size / 1024 / 1024).toFixed(1);
+    const compressedMB = (compressedFile.size / 1024 / 1024).toFixed(1);
+    const reduction = ((1 - compressedFile.size / file.size) * 100).toFixed(0);
+
+    console.log(`✅ Compressed: ${originalMB}MB → ${compressedMB}MB (${reduction}% reduction)`);
+    onProgress(100, `Compressed to ${compressedMB}MB`);
+
+    return compressedFile;
   });
+};
 
+/**
+ * Fixed-quality encode - fast, but the output size depends on the content
+ */
+const encodeSinglePass = async (
+  ffmpegInstance: FFmpeg,
+  inputName: string,
+  outputName: string,
+  maxHeight: number,
+  maxBitrate: string
+) => {
   // Run FFmpeg compression - OPTIMIZED FOR SPEED
   // -preset ultrafast: fastest encoding (larger file but much faster)
   // -crf 32: lower quality but faster (28 is default, higher = faster/smaller)
+  // -maxrate: cap bitrate spikes on busy scenes
   // -tune fastdecode: optimize for fast decoding
   // -vf scale: resize to 540p for speed (still good for AI analysis)
   // -r 24: reduce framerate to 24fps
   // -c:a aac -b:a 64k: compress audio to 64kbps AAC (good enough for speech analysis)
-  await ffmpegInstance.exec([
+  const exitCode = await ffmpegInstance.exec([
     '-i', inputName,
-    '-vf', `scale=-2:min(540\\,ih)`,
+    '-vf', `scale=-2:min(${maxHeight}\\,ih)`,
     '-c:v', 'libx264',
     '-preset', 'ultrafast',
     '-crf', '32',
+    '-maxrate', maxBitrate,
+    '-bufsize', maxBitrate,
     '-tune', 'fastdecode',
-    '-r', '24',
+    '-r', `${OUTPUT_FPS}`,
     '-c:a', 'aac',
-    '-b:a', '64k',
+    '-b:a', `${AUDIO_KBPS}k`,
     '-ac', '1',
     '-movflags', '+faststart',
     '-y',
     outputName
   ]);
+  if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`);
+};
+
+/**
+ * Two-pass average-bitrate encode. The first pass measures how complex
+ * each scene is so the second can spend the bit budget where it matters,
+ * which keeps the size predictable without starving text-heavy frames.
+ */
+const encodeTwoPass = async (
+  ffmpegInstance: FFmpeg,
+  inputName: string,
+  outputName: string,
+  plan: TargetEncoding,
+  setStage: (stage: EncodeStage) => void
+) => {
+  const passLog = 'twopass';
+  const video = [
+    '-vf', `scale=-2:min(${plan.height}\\,ih)`,
+    '-r', `${OUTPUT_FPS}`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-b:v', `${plan.videoKbps}k`,
+    '-passlogfile', passLog,
+  ];
+
+  console.log(`🎯 Two-pass encode at ${plan.videoKbps}kbps, ${plan.height}p`);
+
+  try {
+    setStage({ from: 20, to: 50, label: 'Pass 1/2' });
+    let exitCode = await ffmpegInstance.exec(['-i', inputName, ...video, '-pass', '1', '-an', '-f', 'null', '-']);
+    if (exitCode !== 0) throw new Error(`First pass exited with code ${exitCode}`);
+
+    setStage({ from: 50, to: 90, label: 'Pass 2/2' });
+    exitCode = await ffmpegInstance.exec([
+      '-i', inputName,
+      ...video,
+      '-pass', '2',
+      '-maxrate', `${Math.floor(plan.videoKbps * 1.5)}k`,
+      '-bufsize', `${plan.videoKbps * 2}k`,
+      '-c:a', 'aac',
+      '-b:a', `${AUDIO_KBPS}k`,
+      '-ac', '1',
+      '-movflags', '+faststart',
+      '-y',
+      outputName
+    ]);
+    if (exitCode !== 0) throw new Error(`Second pass exited with code ${exitCode}`);
+  } finally {
+    // x264 stats files; may not exist if the first pass failed early
+    for (const name of [`${passLog}-0.log`, `${passLog}-0.log.mbtree`]) {
+      await ffmpegInstance.deleteFile(name).catch(() => {});
+    }
+  }
+};
 
-  onProgress(90, 'Finalizing...');
+// ==========================================
+// EXTRACT FRAMES + AUDIO WITH FFMPEG
+// ==========================================
+export interface ExtractedFrame {
+  time: number; // seconds into the video
+  file: File;
+}
+
+export interface ExtractedMedia {
+  frames: ExtractedFrame[];
+  audio: File | null;
+  interval: number;
+  duration: number;
+}
 
-  // Read compressed file
-  const data = await ffmpegInstance.readFile(outputName);
-  
-  // Clean up
-  await ffmpegInstance.deleteFile(inputName);
-  await ffmpegInstance.deleteFile(outputName);
+/**
+ * Sample stills at a fixed interval plus a small mono audio track. A
+ * fraction of the size of even a compressed video, and every timestamp
+ * the AI mentions maps to a frame we actually have.
+ */
+export const extractFramesAndAudio = async (
+  file: File,
+  onProgress: (progress: number, message: string) => void,
+  options?: {
+    interval?: number;
+    maxFrames?: number;
+    maxHeight?: number;
+    signal?: AbortSignal;
+  }
+): Promise<ExtractedMedia> => {
+  const { interval: minInterval = 1, maxFrames = 60, maxHeight = 720, signal } = options || {};
+
+  onProgress(0, 'Preparing frame extraction...');
+  const probe = await probeVideo(file);
+  const duration = probe?.duration || 0;
+
+  // Long ads get sparser frames rather than more of them
+  const interval = duration > 0 ? Math.max(minInterval, duration / maxFrames) : minInterval;
+
+  return runFFmpegJob(onProgress, signal, async (ffmpegInstance, setStage) => {
+    onProgress(10, 'Reading video file...');
+    const inputName = 'input' + getExtension(file.name);
+    await ffmpegInstance.writeFile(inputName, await fetchFile(file));
+
+    let frames: ExtractedFrame[];
+    let audio: File | null = null;
+    try {
+      // The fps filter emits frame N at N * interval seconds
+      setStage({ from: 20, to: 70, label: 'Extracting frames' });
+      const frameCode = await ffmpegInstance.exec([
+        '-i', inputName,
+        '-vf', `fps=1/${interval.toFixed(3)},scale=-2:min(${maxHeight}\\,ih)`,
+        '-q:v', '4',
+        '-start_number', '0',
+        // Caps the count even when the duration couldn't be probed
+        '-frames:v', `${maxFrames}`,
+        'frame_%04d.jpg'
+      ]);
+      if (frameCode !== 0) throw new Error(`Frame extraction exited with code ${frameCode}`);
+
+      // 16kHz mono is plenty for speech, music and VO judgements
+      setStage({ from: 70, to: 90, label: 'Extracting audio' });
+      const audioCode = await ffmpegInstance.exec([
+        '-i', inputName,
+        '-vn',
+        '-ac', '1',
+        '-ar', '16000',
+        '-c:a', 'aac',
+        '-b:a', '32k',
+        '-y',
+        'audio.m4a'
+      ]);
+
+      onProgress(90, 'Collecting frames...');
+      const frameNames = (await ffmpegInstance.listDir('.'))
+        .filter(node => !node.isDir && /^frame_\d+\.jpg$/.test(node.name))
+        .map(node => node.name)
+        .sort();
+
+      frames = [];
+      for (const name of frameNames) {
+        const time = parseInt(name.match(/\d+/)![0], 10) * interval;
+        const data = await ffmpegInstance.readFile(name);
+        frames.push({
+          time,
+          file: new File([data], `frame_${time.toFixed(1)}s.jpg`, { type: 'image/jpeg' }),
+        });
+        await ffmpegInstance.deleteFile(name);
+      }
 
-  // Create new File object
-  const compressedBlob = new Blob([data], { type: 'video/mp4' });
-  const compressedFile = new File(
-    [compressedBlob],
-    file.name.replace(/\.[^.]+$/, '_compressed.mp4'),
-    { type: 'video/mp4' }
-  );
+      // A non-zero exit here just means the video has no audio stream
+      if (audioCode === 0) {
+        const data = await ffmpegInstance.readFile('audio.m4a');
+        audio = new File([data], 'audio.m4a', { type: 'audio/mp4' });
+      }
+    } finally {
+      // The FFmpeg filesystem is shared between jobs - leave nothing behind, even on failure
+      const leftovers = (await ffmpegInstance.listDir('.').catch(() => []))
+        .filter(node => !node.isDir && (/^frame_\d+\.jpg$/.test(node.name) || node.name === 'audio.m4a'))
+        .map(node => node.name);
+      for (const name of [inputName, ...leftovers]) {
+        await ffmpegInstance.deleteFile(name).catch(() => {});
+      }
+    }
 
-  const originalMB = (file.size / 1024 / 1024).toFixed(1);
-  const compressedMB = (compressedFile.size / 1024 / 1024).toFixed(1);
-  const reduction = ((1 - compressedFile.size / file.size) * 100).toFixed(0);
+    const totalSize = frames.reduce((sum, frame) => sum + frame.file.size, audio?.size || 0);
+    const totalMB = (totalSize / 1024 / 1024).toFixed(1);
+    console.log(`📸 Extracted ${frames.length} frames every ${interval.toFixed(1)}s${audio ? ' + audio' : ''}: ${totalMB}MB (video was ${(file.size / 1024 / 1024).toFixed(1)}MB)`);
+    onProgress(100, `Extracted ${frames.length} frames (${totalMB}MB)`);
 
-  console.log(`✅ Compressed: ${originalMB}MB → ${compressedMB}MB (${reduction}% reduction)`);
+    return { frames, audio, interval, duration };
+  });
+};
+
+// ==========================================
+// COMPRESS VIDEO WITH WEBCODECS
+// ==========================================
+export const compressVideoWebCodecs = async (
+  file: File,
+  onProgress: (progress: number, message: string) => void,
+  options?: {
+    maxHeight?: number;
+    targetSizeMB?: number;
+    signal?: AbortSignal;
+  }
+): Promise<File> => {
+  const { maxHeight = 540, targetSizeMB, signal } = options || {};
+
+  console.log(`⚡ Compressing ${(file.size / 1024 / 1024).toFixed(1)}MB video with WebCodecs...`);
+
+  // Hardware encoders often overshoot the requested bitrate, so a file over
+  // the target gets one more pass at a bitrate scaled down by the overshoot
+  let bitrateScale = 1;
+  let compressedFile: File | null = null;
+  for (let attempt = 0; attempt < WEBCODECS_SIZE_ATTEMPTS; attempt++) {
+    const blob = await transcodeWithWebCodecs(file, {
+      // Audio is passed through, so budget for its real bitrate
+      plan: (source) => {
+        const plan = targetSizeMB
+          ? planTargetEncoding(targetSizeMB, source.duration, source.width / source.height, OUTPUT_HEIGHTS[0], source.audioKbps)
+          : null;
+        if (targetSizeMB && !plan) {
+          console.warn(`⚠️ Can't fit ${targetSizeMB}MB at a legible quality, using default bitrate`);
+        }
+        return plan
+          ? { ...plan, videoKbps: Math.floor(plan.videoKbps * bitrateScale), fps: OUTPUT_FPS }
+          : { height: maxHeight, videoKbps: Math.floor(1000 * bitrateScale), fps: OUTPUT_FPS };
+      },
+      onProgress: (fraction, message) => onProgress(Math.floor(fraction * 100), message),
+      signal,
+    });
+
+    compressedFile = new File(
+      [blob],
+      file.name.replace(/\.[^.]+$/, '_compressed.mp4'),
+      { type: 'video/mp4' }
+    );
+
+    const targetBytes = targetSizeMB ? targetSizeMB * 1024 * 1024 : Infinity;
+    if (compressedFile.size <= targetBytes) break;
+
+    const overshootMB = (compressedFile.size / 1024 / 1024).toFixed(1);
+    if (attempt === WEBCODECS_SIZE_ATTEMPTS - 1) {
+      // compressVideo falls through to FFmpeg, whose two-pass encode holds the target
+      throw new Error(`WebCodecs output is ${overshootMB}MB, over the ${targetSizeMB}MB target`);
+    }
+    console.warn(`⚠️ WebCodecs overshot to ${overshootMB}MB (target ${targetSizeMB}MB), re-encoding at a lower bitrate`);
+    bitrateScale *= (targetBytes * SIZE_HEADROOM) / compressedFile.size;
+  }
+
+  if (!compressedFile) throw new Error('WebCodecs produced no output');
+
+  const compressedMB = (compressedFile.size / 1024 / 1024).toFixed(1);
+  console.log(`✅ Compressed: ${(file.size / 1024 / 1024).toFixed(1)}MB → ${compressedMB}MB`);
   onProgress(100, `Compressed to ${compressedMB}MB`);
 
   return compressedFile;
@@ -172,25 +637,60 @@ export const compressVideoFFmpeg = async (
 // ==========================================
 // FALLBACK: Canvas-based compression
 // ==========================================
+
+/**
+ * Re-records the video while it plays in real time. Seeking frame by frame
+ * is faster on paper but leaves the captured audio garbled, so this takes
+ * as long as the video but keeps picture and sound in sync. Audio is routed
+ * through WebAudio into the recording only, so nothing plays out loud.
+ */
 export const compressVideoCanvas = async (
   file: File,
-  onProgress: (progress: number, message: string) => void
-): Promise<File> => {
+  onProgress: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<{ file: File; audioPreserved: boolean }> => {
   if (file.size <= 15 * 1024 * 1024) {
     onProgress(100, 'File already optimized');
-    return file;
+    return { file, audioPreserved: true };
   }
 
+  signal?.throwIfAborted();
   console.log('🎨 Using canvas fallback compression...');
   onProgress(0, 'Preparing video...');
 
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
-    video.muted = false; // Keep audio for capture
     video.playsInline = true;
 
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
+    let mediaRecorder: MediaRecorder | null = null;
+    let audioContext: AudioContext | null = null;
+    let drawing = false;
+    let cleanedUp = false;
+
+    // Reached from onerror, onstop and abort - only the first call tears down
+    const cleanup = () => {
+      if (cleanedUp) return;
+      cleanedUp = true;
+      signal?.removeEventListener('abort', onAbort);
+      drawing = false;
+      video.onended = null;
+      video.pause();
+      URL.revokeObjectURL(video.src);
+      audioContext?.close().catch(() => {});
+    };
+
+    const onAbort = () => {
+      if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+        mediaRecorder.onstop = null;
+        mediaRecorder.stop();
+      }
+      cleanup();
+      console.log('🛑 Canvas compression cancelled');
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     video.onloadedmetadata = async () => {
       const maxHeight = 720;
@@ -200,44 +700,42 @@ export const compressVideoCanvas = async (
 
       const duration = video.duration;
       const fps = 24;
-      const totalFrames = Math.floor(duration * fps);
 
       // Capture video from canvas
       const canvasStream = canvas.captureStream(fps);
-      
-      // Try to capture audio from the video element
-      let combinedStream: MediaStream;
+
+      // Route the element's audio into the recording instead of the speakers
+      let audioTracks: MediaStreamTrack[] = [];
       try {
-        // @ts-ignore - captureStream exists on video elements
-        const audioStream = video.captureStream ? video.captureStream() : null;
-        if (audioStream && audioStream.getAudioTracks().length > 0) {
-          // Combine video canvas stream with audio from original video
-          combinedStream = new MediaStream([
-            ...canvasStream.getVideoTracks(),
-            ...audioStream.getAudioTracks()
-          ]);
-          console.log('🔊 Audio track included in compression');
-        } else {
-          combinedStream = canvasStream;
-          console.log('⚠️ No audio track available');
-        }
+        audioContext = new AudioContext();
+        const source = audioContext.createMediaElementSource(video);
+        const destination = audioContext.createMediaStreamDestination();
+        source.connect(destination);
+        await audioContext.resume();
+        audioTracks = destination.stream.getAudioTracks();
+        console.log('🔊 Audio track included in compression');
       } catch (e) {
-        combinedStream = canvasStream;
-        console.log('⚠️ Could not capture audio:', e);
+        console.warn('⚠️ Could not capture audio, output will be silent:', e);
       }
+      // Cancelled while audio was starting up - onAbort already cleaned up and rejected
+      if (signal?.aborted) return;
+      const audioPreserved = audioTracks.length > 0 && audioContext?.state === 'running';
 
-      const mediaRecorder = new MediaRecorder(combinedStream, {
+      const recorder = new MediaRecorder(new MediaStream([...canvasStream.getVideoTracks(), ...audioTracks]), {
         mimeType: 'video/webm;codecs=vp8,opus',
         videoBitsPerSecond: 1000000,
         audioBitsPerSecond: 64000,
       });
 
+      mediaRecorder = recorder;
+
       const chunks: Blob[] = [];
-      mediaRecorder.ondataavailable = (e) => {
+      recorder.ondataavailable = (e) => {
         if (e.data.size > 0) chunks.push(e.data);
       };
 
-      mediaRecorder.onstop = () => {
+      recorder.onstop = () => {
+        cleanup();
         const blob = new Blob(chunks, { type: 'video/webm' });
         const compressedFile = new File(
           [blob],
@@ -245,46 +743,90 @@ export const compressVideoCanvas = async (
           { type: 'video/webm' }
         );
         onProgress(100, 'Compression complete');
-        resolve(compressedFile);
+        resolve({ file: compressedFile, audioPreserved });
       };
 
-      mediaRecorder.onerror = () => reject(new Error('Canvas compression failed'));
-      mediaRecorder.start();
-
-      let currentFrame = 0;
-      const frameInterval = 1 / fps;
-
-      const processFrame = () => {
-        video.currentTime = currentFrame * frameInterval;
+      recorder.onerror = () => {
+        cleanup();
+        reject(new Error('Canvas compression failed'));
       };
 
-      video.onseeked = () => {
+      // Paint every frame the element presents while it plays
+      const draw = () => {
+        if (!drawing) return;
         if (ctx) ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        currentFrame++;
-        const progress = Math.floor((currentFrame / totalFrames) * 95);
-        onProgress(progress, `Processing frame ${currentFrame}/${totalFrames}`);
+        const progress = Math.min(95, Math.floor((video.currentTime / duration) * 95));
+        onProgress(progress, `Recording ${Math.floor(video.currentTime)}s / ${Math.floor(duration)}s`);
 
-        if (currentFrame < totalFrames) {
-          requestAnimationFrame(processFrame);
+        if ('requestVideoFrameCallback' in video) {
+          video.requestVideoFrameCallback(draw);
         } else {
-          setTimeout(() => mediaRecorder.stop(), 100);
+          requestAnimationFrame(draw);
         }
       };
 
-      processFrame();
+      video.onended = () => {
+        drawing = false;
+        setTimeout(() => recorder.state !== 'inactive' && recorder.stop(), 100);
+      };
+
+      recorder.start(1000);
+      drawing = true;
+      try {
+        await video.play();
+        draw();
+      } catch (e) {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        cleanup();
+        reject(new Error('Could not play video for canvas compression'));
+      }
     };
 
-    video.onerror = () => reject(new Error('Failed to load video'));
+    video.onerror = () => {
+      cleanup();
+      reject(new Error('Failed to load video'));
+    };
     video.src = URL.createObjectURL(file);
   });
 };
 
 // ==========================================
-// SMART COMPRESS: Try FFmpeg, fallback to Canvas
+// SMART COMPRESS: Best available method, falling back down the list
 // ==========================================
+type Compressor = (
+  file: File,
+  onProgress: (progress: number, message: string) => void,
+  options: { signal?: AbortSignal; targetSizeMB?: number }
+) => Promise<{ file: File; audioPreserved: boolean }>;
+
+// FFmpeg re-encodes the audio and WebCodecs copies it, so only canvas can lose it
+const COMPRESSORS: Record<CompressionMethod, { label: string; compress: Compressor }> = {
+  webcodecs: {
+    label: 'WebCodecs',
+    compress: async (...args) => ({ file: await compressVideoWebCodecs(...args), audioPreserved: true }),
+  },
+  ffmpeg: {
+    label: 'FFmpeg.wasm',
+    compress: async (...args) => ({ file: await compressVideoFFmpeg(...args), audioPreserved: true }),
+  },
+  canvas: { label: 'Canvas', compress: (file, onProgress, { signal }) => compressVideoCanvas(file, onProgress, signal) },
+};
+
+/**
+ * Methods this browser can run, fastest first. WebCodecs uses the
+ * hardware encoder; FFmpeg.wasm is software but exact; canvas always works.
+ */
+export const getCompressionMethods = (): CompressionMethod[] => [
+  ...(isWebCodecsSupported() ? ['webcodecs' as const] : []),
+  ...(isFFmpegSupported() ? ['ffmpeg' as const] : []),
+  'canvas',
+];
+
 export const compressVideo = async (
   file: File,
-  onProgress: (progress: number, message: string) => void
+  onProgress: (progress: number, message: string) => void,
+  options: { signal?: AbortSignal; targetSizeMB?: number } = {}
 ): Promise<CompressionResult> => {
   const startTime = Date.now();
   const originalSize = file.size;
@@ -298,41 +840,38 @@ export const compressVideo = async (
       method: 'skipped',
       originalSize,
       compressedSize: file.size,
-      duration: 0
+      duration: 0,
+      audioPreserved: true
     };
   }
 
-  try {
-    // Try FFmpeg first (faster, better quality)
-    console.log('🚀 Attempting FFmpeg.wasm compression...');
-    const compressedFile = await compressVideoFFmpeg(file, onProgress);
-    const duration = (Date.now() - startTime) / 1000;
-    
-    console.log(`✅ FFmpeg compression complete in ${duration.toFixed(1)}s`);
-    return {
-      file: compressedFile,
-      method: 'ffmpeg',
-      originalSize,
-      compressedSize: compressedFile.size,
-      duration
-    };
-  } catch (error) {
-    console.warn('⚠️ FFmpeg failed, falling back to canvas:', error);
-    onProgress(0, 'FFmpeg unavailable, using fallback...');
-    
-    // Fallback to canvas-based compression
-    const compressedFile = await compressVideoCanvas(file, onProgress);
-    const duration = (Date.now() - startTime) / 1000;
-    
-    console.log(`✅ Canvas compression complete in ${duration.toFixed(1)}s`);
-    return {
-      file: compressedFile,
-      method: 'canvas',
-      originalSize,
-      compressedSize: compressedFile.size,
-      duration
-    };
+  const methods = getCompressionMethods();
+  for (const [index, method] of methods.entries()) {
+    const { label, compress } = COMPRESSORS[method];
+    try {
+      console.log(`🚀 Attempting ${label} compression...`);
+      const { file: compressedFile, audioPreserved } = await compress(file, onProgress, options);
+      const duration = (Date.now() - startTime) / 1000;
+
+      console.log(`✅ ${label} compression complete in ${duration.toFixed(1)}s`);
+      return {
+        file: compressedFile,
+        method,
+        originalSize,
+        compressedSize: compressedFile.size,
+        duration,
+        audioPreserved
+      };
+    } catch (error) {
+      // A cancelled job must not restart in the fallback
+      if (isAbortError(error) || index === methods.length - 1) throw error;
+
+      console.warn(`⚠️ ${label} failed, falling back:`, error);
+      onProgress(0, `${label} unavailable, using fallback...`);
+    }
   }
+
+  throw new Error('No compression method available');
 };
 
 // ==========================================
@@ -355,10 +894,18 @@ function getExtension(filename: string): string {
 // CHECK FFMPEG SUPPORT
 // ==========================================
 export const isFFmpegSupported = (): boolean => {
-  // Check for SharedArrayBuffer support (required for FFmpeg.wasm)
+  // The single-threaded core only needs WebAssembly
+  return typeof WebAssembly !== 'undefined';
+};
+
+/**
+ * The multi-threaded core needs SharedArrayBuffer, which browsers only
+ * expose on cross-origin isolated pages (COOP + COEP headers)
+ */
+export const getFFmpegCoreType = (): FFmpegCoreType => {
   try {
-    return typeof SharedArrayBuffer !== 'undefined';
+    return typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated ? 'mt' : 'st';
   } catch {
-    return false;
+    return 'st';
   }
 };
@@ -0,0 +1,756 @@
+// ==========================================
+// CONTAINER PARSER
+// Reads track metadata straight from MP4/MOV boxes and WebM elements
+// ==========================================
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface TimeToSampleEntry {
+  count: number;
+  delta: number;
+}
+
+export type CodecFamily =
+  | 'h264' | 'hevc' | 'av1' | 'vp9' | 'vp8' | 'prores'
+  | 'aac' | 'opus' | 'vorbis' | 'mp3' | 'pcm' | 'alac' | 'ac3' | 'eac3'
+  | 'other';
+
+export interface ColorInfo {
+  // Code points from ISO/IEC 23091-4 (same as H.273 / the colr box)
+  primaries: number;
+  transfer: number;
+  matrix: number;
+  fullRange: boolean | null;
+}
+
+export interface ContainerTrack {
+  id: number;
+  type: 'video' | 'audio' | 'other';
+  timescale: number;
+  duration: number; // in seconds
+  sampleCount: number;
+  timeToSample: TimeToSampleEntry[];
+  codec: CodecFamily | null;
+  codecTag: string | null;   // sample entry type or Matroska CodecID, e.g. 'hvc1', 'V_VP9'
+  profile: string | null;    // e.g. 'High', 'Main 10', 'AAC-LC'
+  bitrate: number | null;    // bits per second, when the sample sizes are known
+  sampleRate: number | null;
+  channels: number | null;
+  color: ColorInfo | null;
+  dolbyVision: boolean;
+  rotation: number;          // degrees clockwise, from the display matrix
+}
+
+export interface ContainerInfo {
+  format: 'mp4' | 'webm';
+  duration: number;       // in seconds
+  bitrate: number | null; // overall, bits per second
+  tracks: ContainerTrack[];
+}
+
+export interface FrameRateInfo {
+  average: number;
+  min: number;
+  max: number;
+  variable: boolean;
+}
+
+interface Box {
+  type: string;
+  start: number; // offset of the box payload
+  end: number;
+}
+
+// Only the top-level header is read from disk until we find `moov`,
+// so huge files with the index at the end are still cheap to scan.
+const MAX_TOP_LEVEL_BOXES = 64;
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+// WebM puts its track list right after the header, before the first cluster
+const MATROSKA_HEADER_SIZE = 2 * 1024 * 1024;
+const EBML_MAGIC = 0x1a45dfa3;
+
+// Transfer characteristics that mean HDR
+export const TRANSFER_PQ = 16;
+export const TRANSFER_HLG = 18;
+
+// ==========================================
+// BOX HELPERS
+// ==========================================
+const readFourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+/**
+ * List the child boxes between two offsets of an in-memory buffer
+ */
+const childBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readFourCC(view, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint64(view, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, type: string): Box | undefined =>
+  childBoxes(view, parent.start, parent.end).find(b => b.type === type);
+
+/**
+ * Follow a path of nested box types, e.g. ['mdia', 'minf', 'stbl']
+ */
+const findPath = (view: DataView, parent: Box, path: string[]): Box | undefined => {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    if (!current) return undefined;
+    current = findBox(view, current, type);
+  }
+  return current;
+};
+
+/**
+ * Locate the `moov` box in the file and load it into memory
+ */
+const readMoov = async (file: Blob): Promise<DataView | null> => {
+  let offset = 0;
+
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= file.size; i++) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    if (header.byteLength < 8) return null;
+
+    let size = header.getUint32(0);
+    const type = readFourCC(header, 4);
+
+    if (size === 1) {
+      if (header.byteLength < 16) return null;
+      size = readUint64(header, 8);
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_SIZE) return null;
+      return new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    }
+
+    offset += size;
+  }
+
+  return null;
+};
+
+// ==========================================
+// TRACK PARSING
+// ==========================================
+const parseHandler = (view: DataView, hdlr: Box): ContainerTrack['type'] => {
+  // version/flags (4) + pre_defined (4) + handler_type (4)
+  const handler = readFourCC(view, hdlr.start + 8);
+  if (handler === 'vide') return 'video';
+  if (handler === 'soun') return 'audio';
+  return 'other';
+};
+
+const parseMediaHeader = (view: DataView, mdhd: Box): { timescale: number; duration: number } => {
+  const version = view.getUint8(mdhd.start);
+  if (version === 1) {
+    const timescale = view.getUint32(mdhd.start + 20);
+    return { timescale, duration: readUint64(view, mdhd.start + 24) };
+  }
+  const timescale = view.getUint32(mdhd.start + 12);
+  return { timescale, duration: view.getUint32(mdhd.start + 16) };
+};
+
+const parseTimeToSample = (view: DataView, stts: Box): TimeToSampleEntry[] => {
+  const entryCount = view.getUint32(stts.start + 4);
+  const entries: TimeToSampleEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    const offset = stts.start + 8 + i * 8;
+    if (offset + 8 > stts.end) break;
+    entries.push({ count: view.getUint32(offset), delta: view.getUint32(offset + 4) });
+  }
+
+  return entries;
+};
+
+// ==========================================
+// CODEC CONFIGURATION
+// ==========================================
+const SAMPLE_ENTRY_CODECS: Record<string, CodecFamily> = {
+  avc1: 'h264', avc3: 'h264',
+  hvc1: 'hevc', hev1: 'hevc', dvh1: 'hevc', dvhe: 'hevc',
+  av01: 'av1', dav1: 'av1',
+  vp09: 'vp9', vp08: 'vp8',
+  apcn: 'prores', apch: 'prores', apcs: 'prores', apco: 'prores', ap4h: 'prores', ap4x: 'prores',
+  mp4a: 'aac', Opus: 'opus', '.mp3': 'mp3', alac: 'alac',
+  'ac-3': 'ac3', 'ec-3': 'eac3',
+  lpcm: 'pcm', sowt: 'pcm', twos: 'pcm', ipcm: 'pcm', fpcm: 'pcm', in24: 'pcm', in32: 'pcm',
+};
+
+const MATROSKA_CODECS: [string, CodecFamily][] = [
+  ['V_MPEG4/ISO/AVC', 'h264'],
+  ['V_MPEGH/ISO/HEVC', 'hevc'],
+  ['V_AV1', 'av1'],
+  ['V_VP9', 'vp9'],
+  ['V_VP8', 'vp8'],
+  ['V_PRORES', 'prores'],
+  ['A_AAC', 'aac'],
+  ['A_OPUS', 'opus'],
+  ['A_VORBIS', 'vorbis'],
+  ['A_MPEG/L3', 'mp3'],
+  ['A_PCM', 'pcm'],
+  ['A_ALAC', 'alac'],
+  ['A_AC3', 'ac3'],
+  ['A_EAC3', 'eac3'],
+];
+
+const H264_PROFILES: Record<number, string> = {
+  66: 'Baseline', 77: 'Main', 88: 'Extended', 100: 'High',
+  110: 'High 10', 122: 'High 4:2:2', 244: 'High 4:4:4',
+};
+const HEVC_PROFILES: Record<number, string> = { 1: 'Main', 2: 'Main 10', 3: 'Main Still', 4: 'Range Extensions' };
+const AV1_PROFILES: Record<number, string> = { 0: 'Main', 1: 'High', 2: 'Professional' };
+const AAC_PROFILES: Record<number, string> = { 1: 'AAC Main', 2: 'AAC-LC', 5: 'HE-AAC', 23: 'AAC-LD', 29: 'HE-AAC v2', 39: 'AAC-ELD' };
+
+/**
+ * Profile name from a decoder configuration record (avcC, hvcC, av1C, vpcC).
+ * The same records are stored as CodecPrivate in Matroska.
+ */
+const parseCodecProfile = (codec: CodecFamily, view: DataView, start: number, end: number): string | null => {
+  if (end - start < 4) return null;
+  switch (codec) {
+    case 'h264':
+      return H264_PROFILES[view.getUint8(start + 1)] || null;
+    case 'hevc':
+      return HEVC_PROFILES[view.getUint8(start + 1) & 0x1f] || null;
+    case 'av1':
+      return AV1_PROFILES[view.getUint8(start + 1) >> 5] || null;
+    case 'vp9':
+      // vpcC is a full box: version/flags come first
+      return `Profile ${view.getUint8(start + 4)}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Read the length of an MPEG-4 descriptor (up to 4 bytes, 7 bits each)
+ */
+const readDescriptorLength = (view: DataView, offset: number): { length: number; size: number } => {
+  let length = 0;
+  let size = 0;
+  let byte: number;
+  do {
+    byte = view.getUint8(offset + size);
+    length = (length << 7) | (byte & 0x7f);
+    size++;
+  } while (byte & 0x80 && size < 4);
+  return { length, size };
+};
+
+/**
+ * Walk the esds descriptors down to the AudioSpecificConfig. MP3 in MP4
+ * also uses mp4a, so the object type decides the codec.
+ */
+const parseEsds = (view: DataView, esds: Box): { codec: CodecFamily; profile: string | null } => {
+  let offset = esds.start + 4;
+  let codec: CodecFamily = 'aac';
+
+  while (offset + 2 <= esds.end) {
+    const tag = view.getUint8(offset);
+    const { length, size } = readDescriptorLength(view, offset + 1);
+    const body = offset + 1 + size;
+
+    if (tag === 0x03) {
+      // ES_Descriptor: ES_ID (2) + flags (1) + optional fields
+      const flags = view.getUint8(body + 2);
+      offset = body + 3;
+      if (flags & 0x80) offset += 2;
+      if (flags & 0x40) offset += 1 + view.getUint8(offset);
+      if (flags & 0x20) offset += 2;
+    } else if (tag === 0x04) {
+      // DecoderConfigDescriptor: objectTypeIndication (1) + 12 bytes of buffer/bitrate info
+      const objectType = view.getUint8(body);
+      if (objectType === 0x69 || objectType === 0x6b) codec = 'mp3';
+      offset = body + 13;
+    } else if (tag === 0x05) {
+      if (codec !== 'aac' || length < 1) break;
+      let audioObjectType = view.getUint8(body) >> 3;
+      if (audioObjectType === 31 && length >= 2) {
+        audioObjectType = 32 + (((view.getUint8(body) & 0x07) << 3) | (view.getUint8(body + 1) >> 5));
+      }
+      return { codec, profile: AAC_PROFILES[audioObjectType] || null };
+    } else {
+      offset = body + length;
+    }
+  }
+
+  return { codec, profile: null };
+};
+
+/**
+ * nclx (ISO) and nclc (QuickTime) colour boxes. ICC profiles are ignored.
+ */
+const parseColr = (view: DataView, colr: Box): ColorInfo | null => {
+  const colourType = readFourCC(view, colr.start);
+  if (colourType !== 'nclx' && colourType !== 'nclc') return null;
+
+  return {
+    primaries: view.getUint16(colr.start + 4),
+    transfer: view.getUint16(colr.start + 6),
+    matrix: view.getUint16(colr.start + 8),
+    fullRange: colourType === 'nclx' ? (view.getUint8(colr.start + 10) & 0x80) !== 0 : null,
+  };
+};
+
+interface SampleDescription {
+  codec: CodecFamily;
+  codecTag: string;
+  profile: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+  color: ColorInfo | null;
+  dolbyVision: boolean;
+}
+
+/**
+ * Read the first sample entry of an stsd box
+ */
+const parseSampleDescription = (
+  view: DataView,
+  stsd: Box,
+  type: ContainerTrack['type']
+): SampleDescription | null => {
+  // version/flags (4) + entry_count (4)
+  const [entry] = childBoxes(view, stsd.start + 8, stsd.end);
+  if (!entry) return null;
+
+  const codecTag = entry.type;
+  let codec = SAMPLE_ENTRY_CODECS[codecTag] || 'other';
+  let profile: string | null = null;
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let color: ColorInfo | null = null;
+  let dolbyVision = codecTag.startsWith('dv') || codecTag === 'dav1';
+  let childrenStart: number;
+
+  if (type === 'video') {
+    // VisualSampleEntry header is 78 bytes before its child boxes
+    childrenStart = entry.start + 78;
+  } else if (type === 'audio') {
+    // AudioSampleEntry; QuickTime sound descriptions v1/v2 are longer
+    const version = view.getUint16(entry.start + 8);
+    if (version === 2) {
+      sampleRate = view.getFloat64(entry.start + 32);
+      channels = view.getUint32(entry.start + 40);
+      childrenStart = entry.start + 64;
+    } else {
+      channels = view.getUint16(entry.start + 16);
+      sampleRate = view.getUint32(entry.start + 24) / 65536;
+      childrenStart = entry.start + 28 + (version === 1 ? 16 : 0);
+    }
+  } else {
+    return { codec, codecTag, profile, sampleRate, channels, color, dolbyVision };
+  }
+
+  for (const child of childBoxes(view, childrenStart, entry.end)) {
+    if (['avcC', 'hvcC', 'av1C', 'vpcC'].includes(child.type)) {
+      profile = parseCodecProfile(codec, view, child.start, child.end);
+      if (child.type === 'vpcC' && child.end - child.start >= 10) {
+        const flags = view.getUint8(child.start + 6);
+        color = color || {
+          primaries: view.getUint8(child.start + 7),
+          transfer: view.getUint8(child.start + 8),
+          matrix: view.getUint8(child.start + 9),
+          fullRange: (flags & 0x01) !== 0,
+        };
+      }
+    } else if (child.type === 'colr') {
+      color = parseColr(view, child) || color;
+    } else if (child.type === 'dvcC' || child.type === 'dvvC') {
+      dolbyVision = true;
+    } else if (child.type === 'esds') {
+      ({ codec, profile } = parseEsds(view, child));
+    }
+  }
+
+  return { codec, codecTag, profile, sampleRate, channels, color, dolbyVision };
+};
+
+/**
+ * Total payload size of a track from its sample size table
+ */
+const parseSampleSizes = (view: DataView, stsz: Box): number => {
+  const sampleSize = view.getUint32(stsz.start + 4);
+  const sampleCount = view.getUint32(stsz.start + 8);
+  if (sampleSize > 0) return sampleSize * sampleCount;
+
+  let total = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const offset = stsz.start + 12 + i * 4;
+    if (offset + 4 > stsz.end) break;
+    total += view.getUint32(offset);
+  }
+  return total;
+};
+
+/**
+ * Rotation from the tkhd transformation matrix, snapped to 90° steps
+ */
+const parseRotation = (view: DataView, tkhd: Box): number => {
+  const matrixOffset = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 52 : 40);
+  if (matrixOffset + 16 > tkhd.end) return 0;
+
+  const a = view.getInt32(matrixOffset) / 65536;
+  const b = view.getInt32(matrixOffset + 4) / 65536;
+  const degrees = Math.round((Math.atan2(b, a) * 180) / Math.PI / 90) * 90;
+  return (degrees + 360) % 360;
+};
+
+// ==========================================
+// MP4 TRACKS
+// ==========================================
+const parseTrack = (view: DataView, trak: Box): ContainerTrack | null => {
+  const tkhd = findBox(view, trak, 'tkhd');
+  const mdia = findBox(view, trak, 'mdia');
+  if (!tkhd || !mdia) return null;
+
+  const hdlr = findBox(view, mdia, 'hdlr');
+  const mdhd = findBox(view, mdia, 'mdhd');
+  if (!hdlr || !mdhd) return null;
+
+  const { timescale, duration } = parseMediaHeader(view, mdhd);
+  const type = parseHandler(view, hdlr);
+  const stbl = findPath(view, mdia, ['minf', 'stbl']);
+  const stts = stbl && findBox(view, stbl, 'stts');
+  const stsz = stbl && findBox(view, stbl, 'stsz');
+  const stsd = stbl && findBox(view, stbl, 'stsd');
+  const timeToSample = stts ? parseTimeToSample(view, stts) : [];
+  const description = stsd ? parseSampleDescription(view, stsd, type) : null;
+
+  const trackIdOffset = view.getUint8(tkhd.start) === 1 ? 20 : 12;
+  const seconds = timescale > 0 ? duration / timescale : 0;
+
+  return {
+    id: view.getUint32(tkhd.start + trackIdOffset),
+    type,
+    timescale,
+    duration: seconds,
+    sampleCount: timeToSample.reduce((sum, e) => sum + e.count, 0),
+    timeToSample,
+    codec: description?.codec || null,
+    codecTag: description?.codecTag || null,
+    profile: description?.profile || null,
+    bitrate: stsz && seconds > 0 ? (parseSampleSizes(view, stsz) * 8) / seconds : null,
+    sampleRate: description?.sampleRate || null,
+    channels: description?.channels || null,
+    color: description?.color || null,
+    dolbyVision: description?.dolbyVision || false,
+    rotation: parseRotation(view, tkhd),
+  };
+};
+
+const parseMp4 = async (file: Blob): Promise<ContainerInfo | null> => {
+  const view = await readMoov(file);
+  if (!view) return null;
+
+  // Read the moov header back through childBoxes so a 64-bit largesize (16-byte header) is honoured
+  const moov = childBoxes(view, 0, view.byteLength).find(b => b.type === 'moov');
+  if (!moov) return null;
+  const tracks = childBoxes(view, moov.start, moov.end)
+    .filter(b => b.type === 'trak')
+    .map(trak => parseTrack(view, trak))
+    .filter((t): t is ContainerTrack => t !== null);
+  const duration = Math.max(0, ...tracks.map(t => t.duration));
+
+  return {
+    format: 'mp4',
+    duration,
+    bitrate: duration > 0 ? (file.size * 8) / duration : null,
+    tracks,
+  };
+};
+
+// ==========================================
+// WEBM / MATROSKA
+// ==========================================
+const EBML = {
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  Colour: 0x55b0,
+  MatrixCoefficients: 0x55b1,
+  Range: 0x55b9,
+  TransferCharacteristics: 0x55ba,
+  Primaries: 0x55bb,
+  Projection: 0x7670,
+  ProjectionPoseRoll: 0x7675,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+};
+
+interface EbmlElement {
+  id: number;
+  start: number; // offset of the element payload
+  end: number;
+}
+
+/**
+ * Read an EBML variable-length integer. IDs keep their length marker,
+ * sizes don't. Unknown sizes (all ones) come back as Infinity.
+ */
+const readVint = (view: DataView, offset: number, keepMarker: boolean): { value: number; length: number } | null => {
+  if (offset >= view.byteLength) return null;
+  const first = view.getUint8(offset);
+
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8 || offset + length > view.byteLength) return null;
+
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = value === mask - 1;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+
+  return { value: !keepMarker && allOnes ? Infinity : value, length };
+};
+
+/**
+ * List the child elements between two offsets. Elements running past the
+ * end of the buffer (a truncated header read, unknown-size segments) are
+ * clamped to it.
+ */
+const ebmlChildren = (view: DataView, start: number, end: number): EbmlElement[] => {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const id = readVint(view, offset, true);
+    const size = id && readVint(view, offset + id.length, false);
+    if (!id || !size) break;
+
+    const payload = offset + id.length + size.length;
+    const elementEnd = Math.min(payload + size.value, end);
+    elements.push({ id: id.value, start: payload, end: elementEnd });
+    if (id.value === EBML.Cluster || elementEnd >= end) break;
+
+    offset = elementEnd;
+  }
+
+  return elements;
+};
+
+const findElement = (view: DataView, parent: EbmlElement, id: number): EbmlElement | undefined =>
+  ebmlChildren(view, parent.start, parent.end).find(e => e.id === id);
+
+const readEbmlUint = (view: DataView, element: EbmlElement): number => {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) value = value * 256 + view.getUint8(i);
+  return value;
+};
+
+const readEbmlFloat = (view: DataView, element: EbmlElement): number => {
+  const size = element.end - element.start;
+  if (size === 4) return view.getFloat32(element.start);
+  if (size === 8) return view.getFloat64(element.start);
+  return 0;
+};
+
+const readEbmlString = (view: DataView, element: EbmlElement): string => {
+  let value = '';
+  for (let i = element.start; i < element.end; i++) {
+    const byte = view.getUint8(i);
+    if (byte === 0) break;
+    value += String.fromCharCode(byte);
+  }
+  return value;
+};
+
+const parseMatroskaColour = (view: DataView, colour: EbmlElement): ColorInfo => {
+  const read = (id: number, fallback: number) => {
+    const element = findElement(view, colour, id);
+    return element ? readEbmlUint(view, element) : fallback;
+  };
+  const range = read(EBML.Range, 0);
+
+  // 2 = unspecified for primaries/transfer/matrix, same as in colr boxes
+  return {
+    primaries: read(EBML.Primaries, 2),
+    transfer: read(EBML.TransferCharacteristics, 2),
+    matrix: read(EBML.MatrixCoefficients, 2),
+    fullRange: range === 0 || range === 3 ? null : range === 2,
+  };
+};
+
+const parseTrackEntry = (view: DataView, entry: EbmlElement, duration: number, timescale: number): ContainerTrack => {
+  const child = (id: number, parent: EbmlElement = entry) => findElement(view, parent, id);
+  const trackType = child(EBML.TrackType);
+  const codecId = child(EBML.CodecID);
+  const codecPrivate = child(EBML.CodecPrivate);
+  const video = child(EBML.Video);
+  const audio = child(EBML.Audio);
+
+  const type = trackType ? readEbmlUint(view, trackType) : 0;
+  const codecTag = codecId ? readEbmlString(view, codecId) : null;
+  const codec = codecTag ? MATROSKA_CODECS.find(([prefix]) => codecTag.startsWith(prefix))?.[1] || 'other' : null;
+
+  const colour = video && child(EBML.Colour, video);
+  const projection = video && child(EBML.Projection, video);
+  const roll = projection && child(EBML.ProjectionPoseRoll, projection);
+  const samplingFrequency = audio && child(EBML.SamplingFrequency, audio);
+  const channels = audio && child(EBML.Channels, audio);
+  const trackNumber = child(EBML.TrackNumber);
+
+  // Matroska's roll is counter-clockwise
+  const rotation = roll ? (Math.round(-readEbmlFloat(view, roll) / 90) * 90 + 360) % 360 : 0;
+
+  return {
+    id: trackNumber ? readEbmlUint(view, trackNumber) : 0,
+    type: type === 1 ? 'video' : type === 2 ? 'audio' : 'other',
+    timescale,
+    duration,
+    sampleCount: 0,
+    timeToSample: [],
+    codec,
+    codecTag,
+    profile: codec && codecPrivate ? parseCodecProfile(codec, view, codecPrivate.start, codecPrivate.end) : null,
+    bitrate: null,
+    sampleRate: samplingFrequency ? readEbmlFloat(view, samplingFrequency) : null,
+    channels: channels ? readEbmlUint(view, channels) : null,
+    color: colour ? parseMatroskaColour(view, colour) : null,
+    dolbyVision: false,
+    rotation,
+  };
+};
+
+/**
+ * Parse the segment header of a WebM/Matroska file. WebM has no sample
+ * table up front, so frame timing and per-track bitrate aren't available.
+ */
+const parseMatroska = async (file: Blob): Promise<ContainerInfo | null> => {
+  const view = new DataView(await file.slice(0, MATROSKA_HEADER_SIZE).arrayBuffer());
+  const root: EbmlElement = { id: 0, start: 0, end: view.byteLength };
+  const segment = ebmlChildren(view, root.start, root.end).find(e => e.id === EBML.Segment);
+  if (!segment) return null;
+
+  const sections = ebmlChildren(view, segment.start, segment.end);
+  const info = sections.find(e => e.id === EBML.Info);
+  const tracks = sections.find(e => e.id === EBML.Tracks);
+  if (!tracks) return null;
+
+  const scaleElement = info && findElement(view, info, EBML.TimecodeScale);
+  const durationElement = info && findElement(view, info, EBML.Duration);
+  const timecodeScale = scaleElement ? readEbmlUint(view, scaleElement) : 1000000; // nanoseconds per tick
+  const duration = durationElement ? (readEbmlFloat(view, durationElement) * timecodeScale) / 1e9 : 0;
+  const timescale = 1e9 / timecodeScale;
+
+  return {
+    format: 'webm',
+    duration,
+    bitrate: duration > 0 ? (file.size * 8) / duration : null,
+    tracks: ebmlChildren(view, tracks.start, tracks.end)
+      .filter(e => e.id === EBML.TrackEntry)
+      .map(entry => parseTrackEntry(view, entry, duration, timescale)),
+  };
+};
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Parse the track list of an MP4/MOV or WebM file. Returns null for other
+ * containers (AVI...) or when the file has no readable track list.
+ */
+export const parseContainer = async (file: Blob): Promise<ContainerInfo | null> => {
+  try {
+    const magic = new DataView(await file.slice(0, 4).arrayBuffer());
+    if (magic.byteLength === 4 && magic.getUint32(0) === EBML_MAGIC) {
+      return await parseMatroska(file);
+    }
+    return await parseMp4(file);
+  } catch (error) {
+    console.warn('⚠️ Could not parse container:', error);
+    return null;
+  }
+};
+
+/**
+ * Derive the frame rate of a video track from its sample durations.
+ * A track is treated as variable frame rate when more than 5% of its
+ * frames deviate from the most common frame duration.
+ */
+export const getFrameRate = (track: ContainerTrack): FrameRateInfo | null => {
+  const entries = track.timeToSample.filter(e => e.count > 0 && e.delta > 0);
+  if (track.timescale <= 0 || entries.length === 0) return null;
+
+  const totalFrames = entries.reduce((sum, e) => sum + e.count, 0);
+  const totalTicks = entries.reduce((sum, e) => sum + e.count * e.delta, 0);
+  const average = (totalFrames * track.timescale) / totalTicks;
+
+  // Most common frame duration
+  const deltaCounts = new Map<number, number>();
+  for (const e of entries) {
+    deltaCounts.set(e.delta, (deltaCounts.get(e.delta) || 0) + e.count);
+  }
+  const modalDelta = [...deltaCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  // The last sample often carries a different duration; ignore single-frame runs
+  const runs = entries.filter(e => e.count > 1);
+  const deltas = (runs.length > 0 ? runs : entries).map(e => e.delta);
+
+  const deviating = entries
+    .filter(e => Math.abs(e.delta - modalDelta) / modalDelta > 0.02)
+    .reduce((sum, e) => sum + e.count, 0);
+
+  return {
+    average,
+    min: track.timescale / Math.max(...deltas),
+    max: track.timescale / Math.min(...deltas),
+    variable: deviating / totalFrames > 0.05,
+  };
+};
@@ -0,0 +1,116 @@
+// ==========================================
+// CONTENT HASHING & COMPRESSION CACHE
+// Identical uploads are recognised by a SHA-256 of their bytes, and
+// compressed outputs are kept in IndexedDB under that hash so a
+// re-analysis doesn't compress the same video twice
+// ==========================================
+
+import { CompressionResult } from './compression';
+import type { HashWorkerResponse } from './contentHash.worker';
+
+// ==========================================
+// HASHING
+// ==========================================
+
+/**
+ * Hex SHA-256 of the file's contents, computed in a worker that reads
+ * the file in slices. Aborting the signal stops the worker.
+ */
+export const hashFile = (file: Blob, options: { signal?: AbortSignal } = {}): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) return reject(new DOMException('Hashing cancelled', 'AbortError'));
+
+    const worker = new Worker(new URL('./contentHash.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Hashing cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = ({ data }: MessageEvent<HashWorkerResponse>) => {
+      finish();
+      if (data.hash) resolve(data.hash);
+      else reject(new Error(data.error || 'Could not hash video'));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Hash worker crashed'));
+    };
+    worker.postMessage(file);
+  });
+
+// ==========================================
+// INDEXEDDB CACHE
+// ==========================================
+const DB_NAME = 'viralaudit';
+const DB_VERSION = 1;
+const STORE = 'compressed';
+
+// Compressed videos are up to ~20MB each; keep the cache from growing unbounded
+const MAX_CACHED = 5;
+
+interface CachedCompression {
+  hash: string;
+  file: File;
+  result: Omit<CompressionResult, 'file'>;
+  cachedAt: number;
+}
+
+const openCache = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'hash' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Compressed output for a content hash, if this browser has one
+ */
+export const getCachedCompression = async (hash: string): Promise<CompressionResult | null> => {
+  try {
+    const db = await openCache();
+    const entry: CachedCompression | undefined = await promisify(
+      db.transaction(STORE).objectStore(STORE).get(hash)
+    );
+    db.close();
+    return entry ? { ...entry.result, file: entry.file } : null;
+  } catch (error) {
+    console.warn('⚠️ Compression cache unavailable:', error);
+    return null;
+  }
+};
+
+/**
+ * Store a compressed output, evicting the oldest entries past MAX_CACHED
+ */
+export const cacheCompression = async (hash: string, { file, ...result }: CompressionResult): Promise<void> => {
+  try {
+    const db = await openCache();
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const entry: CachedCompression = { hash, file, result, cachedAt: Date.now() };
+    await promisify(store.put(entry));
+
+    const entries: CachedCompression[] = await promisify(store.getAll());
+    const stale = entries.sort((a, b) => b.cachedAt - a.cachedAt).slice(MAX_CACHED);
+    await Promise.all(stale.map((old) => promisify(store.delete(old.hash))));
+
+    db.close();
+    console.log(`💾 Cached compressed video (${hash.slice(0, 12)}…)`);
+  } catch (error) {
+    console.warn('⚠️ Could not cache compressed video:', error);
+  }
+};
@@ -0,0 +1,26 @@
+// ==========================================
+// CONTENT HASH WORKER
+// Hashes a file slice by slice off the main thread, so only one
+// slice of the video is in memory at a time
+// ==========================================
+
+import { createSha256 } from './sha256';
+
+export interface HashWorkerResponse {
+  hash?: string;
+  error?: string;
+}
+
+const SLICE_BYTES = 8 * 1024 * 1024;
+
+self.onmessage = async ({ data: file }: MessageEvent<Blob>) => {
+  try {
+    const sha = createSha256();
+    for (let offset = 0; offset < file.size; offset += SLICE_BYTES) {
+      sha.update(new Uint8Array(await file.slice(offset, offset + SLICE_BYTES).arrayBuffer()));
+    }
+    self.postMessage({ hash: sha.digest() } satisfies HashWorkerResponse);
+  } catch (error: any) {
+    self.postMessage({ error: error?.message || String(error) } satisfies HashWorkerResponse);
+  }
+};
@@ -0,0 +1,659 @@
+// ==========================================
+// FRAME ANALYSIS
+// Samples frames through a canvas and runs visual detectors on them
+// ==========================================
+
+import { PacingAnalysis, SafeZonePlatform } from '../types';
+import { SafeZoneLayout } from './platforms';
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface SampledFrame {
+  time: number; // in seconds
+  image: ImageData;
+  detail?: ImageData; // native-resolution crop from the centre of the frame
+}
+
+export interface SampleOptions {
+  interval: number;    // seconds between samples
+  maxSamples: number;  // interval is stretched for long videos
+  width: number;       // frames are scaled down to this width
+  detailSize?: number; // size of the square native-resolution centre crop, if wanted
+}
+
+export interface TimeRange {
+  start: number; // in seconds
+  end: number;
+}
+
+export interface BlackFrameScan {
+  leading: number;  // seconds of black at the start
+  trailing: number; // seconds of black at the end
+  trailingStart: number;
+}
+
+export interface FrozenFrameScan {
+  freezes: TimeRange[];
+}
+
+export interface BlurScan {
+  frameCount: number; // frames with enough contrast to judge focus
+  blurryCount: number;
+  blurry: TimeRange[];
+  medianSharpness: number;
+}
+
+export interface FrameBorders {
+  // Blank border on each side, as a fraction of the frame dimension
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface SafeZoneHit {
+  platform: SafeZonePlatform;
+  region: string;
+}
+
+export interface SafeZoneScan {
+  frameCount: number;
+  violations: { time: number; hits: SafeZoneHit[] }[];
+  // Frame with the most hidden content, per platform
+  worstFrames: Partial<Record<SafeZonePlatform, { frame: SampledFrame; overlap: number }>>;
+}
+
+/**
+ * A detector receives every sampled frame in order, then reports
+ */
+export interface FrameDetector<T> {
+  addFrame: (frame: SampledFrame) => void;
+  finish: (duration: number) => T;
+}
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+const SEEK_TIMEOUT_MS = 3000;
+const HISTOGRAM_LEVELS = 4; // per channel, 4x4x4 = 64 bins
+const CUT_THRESHOLD = 0.4;     // histogram distance that counts as a shot change
+const STATIC_THRESHOLD = 0.01; // mean luma change below which nothing is moving
+const BORDER_TOLERANCE = 12;      // luma levels a blank row/column may vary by
+const BORDER_UNIFORMITY = 0.97;   // share of pixels that must match for a blank line
+const TEXT_CELL_SIZE = 8;         // pixels per side of a text-detection cell
+const TEXT_EDGE_THRESHOLD = 60;   // luma jump between neighbours that counts as a hard edge
+const TEXT_EDGE_DENSITY = 0.2;    // share of hard-edge pixels in a text-like cell
+const TEXT_CONTRAST = 100;        // luma range inside a text-like cell
+const ZONE_COVERAGE = 0.08;       // share of a zone's cells that must be text-like
+const BLACK_LUMA = 32;            // pixels darker than this count as black
+const BLACK_COVERAGE = 0.98;      // share of black pixels in a black frame
+const FROZEN_PIXEL_TOLERANCE = 4; // max luma change between duplicate frames
+const FROZEN_MIN_SECONDS = 1;
+const END_CARD_SECONDS = 3;       // holds reaching into the last seconds are end cards, not freezes
+const FLAT_FRAME_STDDEV = 15;     // too little contrast to judge focus (sky, walls, fades)
+const BLUR_SHARPNESS = 60;        // Laplacian variance below this is soft at native resolution
+const BLUR_RELATIVE = 0.25;       // ...or this far below the video's own median
+
+// ==========================================
+// FRAME SAMPLING
+// ==========================================
+const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Failed to load video for frame sampling'));
+    video.src = url;
+  });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      video.onseeked = null;
+      reject(new Error(`Seek to ${time.toFixed(2)}s timed out`));
+    }, SEEK_TIMEOUT_MS);
+
+    video.onseeked = () => {
+      clearTimeout(timeout);
+      video.onseeked = null;
+      resolve();
+    };
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Seek through the video at a fixed interval and hand each frame,
+ * scaled down to `options.width`, to the callback along with how far
+ * through the video it is (0-1)
+ */
+export const sampleFrames = async (
+  file: Blob,
+  options: SampleOptions,
+  onFrame: (frame: SampledFrame, fraction: number) => void,
+  signal?: AbortSignal
+): Promise<number> => {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const video = await loadVideo(url);
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0 || !video.videoWidth) {
+      throw new Error('Video has no frames to sample');
+    }
+
+    const interval = Math.max(options.interval, duration / options.maxSamples);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(options.width, video.videoWidth);
+    canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * canvas.width));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const detailSize = Math.min(options.detailSize || 0, video.videoWidth, video.videoHeight);
+    const detailCanvas = document.createElement('canvas');
+    detailCanvas.width = detailCanvas.height = detailSize;
+    const detailCtx = detailSize > 0 ? detailCanvas.getContext('2d', { willReadFrequently: true }) : null;
+    const detailX = (video.videoWidth - detailSize) / 2;
+    const detailY = (video.videoHeight - detailSize) / 2;
+
+    for (let time = 0; time < duration; time += interval) {
+      signal?.throwIfAborted();
+      await seekTo(video, time);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      detailCtx?.drawImage(video, detailX, detailY, detailSize, detailSize, 0, 0, detailSize, detailSize);
+      onFrame({
+        time,
+        image: ctx.getImageData(0, 0, canvas.width, canvas.height),
+        detail: detailCtx?.getImageData(0, 0, detailSize, detailSize),
+      }, Math.min(1, (time + interval) / duration));
+    }
+
+    return duration;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// ==========================================
+// PIXEL HELPERS
+// ==========================================
+const histogram = ({ data }: ImageData): Float32Array => {
+  const bins = new Float32Array(HISTOGRAM_LEVELS ** 3);
+  const shift = 8 - Math.log2(HISTOGRAM_LEVELS);
+  const pixels = data.length / 4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] >> shift;
+    const g = data[i + 1] >> shift;
+    const b = data[i + 2] >> shift;
+    bins[(r * HISTOGRAM_LEVELS + g) * HISTOGRAM_LEVELS + b]++;
+  }
+  for (let i = 0; i < bins.length; i++) bins[i] /= pixels;
+
+  return bins;
+};
+
+/**
+ * Half the L1 distance between two normalized histograms (0 = same, 1 = disjoint)
+ */
+const histogramDistance = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 2;
+};
+
+const luma = (data: Uint8ClampedArray, offset: number): number =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+/**
+ * Mean absolute luma difference between two frames, 0-1
+ */
+const motion = (a: ImageData, b: ImageData): number => {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    sum += Math.abs(luma(a.data, i) - luma(b.data, i));
+  }
+  return sum / (a.data.length / 4) / 255;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const isBlackFrame = ({ data }: ImageData): boolean => {
+  let black = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (luma(data, i) < BLACK_LUMA) black++;
+  }
+  return black / (data.length / 4) >= BLACK_COVERAGE;
+};
+
+/**
+ * Largest luma change of any pixel between two frames
+ */
+const maxDifference = (a: ImageData, b: ImageData): number => {
+  let max = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    const diff = Math.abs(luma(a.data, i) - luma(b.data, i));
+    if (diff > max) max = diff;
+  }
+  return max;
+};
+
+/**
+ * Group sorted sample times into ranges, splitting where consecutive
+ * samples are more than `gap` seconds apart
+ */
+const toRanges = (times: number[], gap: number): TimeRange[] => {
+  const ranges: TimeRange[] = [];
+  for (const time of times) {
+    const last = ranges[ranges.length - 1];
+    if (last && time - last.end <= gap) {
+      last.end = time;
+    } else {
+      ranges.push({ start: time, end: time });
+    }
+  }
+  return ranges;
+};
+
+// ==========================================
+// BORDER DETECTOR
+// ==========================================
+
+/**
+ * A line of pixels is blank when nearly all of it is one flat color,
+ * which covers black bars as well as solid or white borders
+ */
+const isBlankLine = (data: Uint8ClampedArray, offsets: number[]): boolean => {
+  let sum = 0;
+  for (const offset of offsets) sum += luma(data, offset);
+  const mean = sum / offsets.length;
+
+  let matching = 0;
+  for (const offset of offsets) {
+    if (Math.abs(luma(data, offset) - mean) <= BORDER_TOLERANCE) matching++;
+  }
+  return matching / offsets.length >= BORDER_UNIFORMITY;
+};
+
+const measureBorders = ({ data, width, height }: ImageData): FrameBorders => {
+  const row = (y: number) => Array.from({ length: width }, (_, x) => (y * width + x) * 4);
+  const column = (x: number) => Array.from({ length: height }, (_, y) => (y * width + x) * 4);
+
+  const countBlank = (limit: number, line: (i: number) => number[]) => {
+    let count = 0;
+    while (count < limit && isBlankLine(data, line(count))) count++;
+    return count;
+  };
+
+  const top = countBlank(height, y => row(y));
+  const bottom = countBlank(height - top, y => row(height - 1 - y));
+  const left = countBlank(width, x => column(x));
+  const right = countBlank(width - left, x => column(width - 1 - x));
+
+  return {
+    top: top / height,
+    bottom: bottom / height,
+    left: left / width,
+    right: right / width,
+  };
+};
+
+/**
+ * Letterbox/pillarbox detector. Uses the median border per side so a
+ * dark scene or a fade to black doesn't read as a bar.
+ */
+export const createBorderDetector = (): FrameDetector<FrameBorders | null> => {
+  const measurements: FrameBorders[] = [];
+
+  return {
+    addFrame: ({ image }) => {
+      const borders = measureBorders(image);
+      // Fully blank frames (black frames, fades) say nothing about bars
+      if (borders.top + borders.bottom < 0.9 && borders.left + borders.right < 0.9) {
+        measurements.push(borders);
+      }
+    },
+
+    finish: () => {
+      if (measurements.length === 0) return null;
+      return {
+        top: median(measurements.map(b => b.top)),
+        bottom: median(measurements.map(b => b.bottom)),
+        left: median(measurements.map(b => b.left)),
+        right: median(measurements.map(b => b.right)),
+      };
+    },
+  };
+};
+
+// ==========================================
+// SAFE ZONE DETECTOR
+// ==========================================
+
+/**
+ * Flag cells that look like text or graphics: dense, hard, high-contrast
+ * edges. Returns a grid of booleans, row-major.
+ */
+const findTextCells = ({ data, width, height }: ImageData): { cells: boolean[]; columns: number; rows: number } => {
+  const lumas = new Float32Array(width * height);
+  for (let i = 0; i < lumas.length; i++) lumas[i] = luma(data, i * 4);
+
+  const columns = Math.floor(width / TEXT_CELL_SIZE);
+  const rows = Math.floor(height / TEXT_CELL_SIZE);
+  const cells: boolean[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let edges = 0;
+      let min = 255;
+      let max = 0;
+
+      for (let y = row * TEXT_CELL_SIZE; y < (row + 1) * TEXT_CELL_SIZE; y++) {
+        for (let x = column * TEXT_CELL_SIZE; x < (column + 1) * TEXT_CELL_SIZE; x++) {
+          const value = lumas[y * width + x];
+          if (value < min) min = value;
+          if (value > max) max = value;
+
+          const right = x + 1 < width ? lumas[y * width + x + 1] : value;
+          const below = y + 1 < height ? lumas[(y + 1) * width + x] : value;
+          if (Math.abs(value - right) + Math.abs(value - below) > TEXT_EDGE_THRESHOLD) edges++;
+        }
+      }
+
+      cells.push(edges / (TEXT_CELL_SIZE * TEXT_CELL_SIZE) >= TEXT_EDGE_DENSITY && max - min >= TEXT_CONTRAST);
+    }
+  }
+
+  return { cells, columns, rows };
+};
+
+/**
+ * Safe-zone detector: finds text and graphics that land under each
+ * platform's UI (top bar, caption area, button rail). Keeps the frame
+ * with the most overlap per platform so it can be shown with the
+ * overlay on top.
+ */
+export const createSafeZoneDetector = (
+  layouts: Partial<Record<SafeZonePlatform, SafeZoneLayout>>
+): FrameDetector<SafeZoneScan> => {
+  const violations: SafeZoneScan['violations'] = [];
+  let frameCount = 0;
+  const worstFrames: SafeZoneScan['worstFrames'] = {};
+
+  return {
+    addFrame: (frame) => {
+      frameCount++;
+      const { cells, columns, rows } = findTextCells(frame.image);
+      const hits: SafeZoneHit[] = [];
+
+      for (const [platform, layout] of Object.entries(layouts) as [SafeZonePlatform, SafeZoneLayout][]) {
+        let overlap = 0;
+
+        for (const region of layout.regions) {
+          let total = 0;
+          let text = 0;
+
+          for (let row = 0; row < rows; row++) {
+            const centerY = (row + 0.5) / rows;
+            if (centerY < region.y || centerY > region.y + region.height) continue;
+            for (let column = 0; column < columns; column++) {
+              const centerX = (column + 0.5) / columns;
+              if (centerX < region.x || centerX > region.x + region.width) continue;
+              total++;
+              if (cells[row * columns + column]) text++;
+            }
+          }
+
+          if (total > 0 && text >= 2 && text / total >= ZONE_COVERAGE) {
+            hits.push({ platform, region: region.name });
+            overlap += text;
+          }
+        }
+
+        if (overlap > (worstFrames[platform]?.overlap || 0)) {
+          worstFrames[platform] = { frame, overlap };
+        }
+      }
+
+      if (hits.length > 0) {
+        violations.push({ time: frame.time, hits });
+      }
+    },
+
+    finish: () => ({ frameCount, violations, worstFrames }),
+  };
+};
+
+/**
+ * Encode a sampled frame as a small JPEG data URL for storing on the audit
+ */
+export const frameToDataUrl = (image: ImageData, quality = 0.7): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// ==========================================
+// VISUAL QUALITY DETECTORS
+// ==========================================
+
+/**
+ * Black-frame detector for the start and end of the video, where black
+ * frames cost the hook and the replay. Mid-video fades are ignored.
+ */
+export const createBlackFrameDetector = (): FrameDetector<BlackFrameScan> => {
+  let leading: number | null = null;
+  let trailingStart: number | null = null;
+
+  return {
+    addFrame: ({ time, image }) => {
+      if (isBlackFrame(image)) {
+        if (trailingStart === null) trailingStart = time;
+      } else {
+        if (leading === null) leading = time;
+        trailingStart = null;
+      }
+    },
+
+    finish: (duration) => {
+      // A video that never leaves black is black from start to finish
+      const start = leading ?? duration;
+      const end = trailingStart !== null && leading !== null ? trailingStart : duration;
+      return {
+        leading: start,
+        trailing: duration - end,
+        trailingStart: end,
+      };
+    },
+  };
+};
+
+/**
+ * Frozen-frame detector: runs of pixel-identical samples in the middle
+ * of the video, which is what a stalled export or a dropped clip looks
+ * like. Holds on the first frame or in the end-card seconds are left alone.
+ */
+export const createFrozenFrameDetector = (): FrameDetector<FrozenFrameScan> => {
+  const frozenTimes: number[] = [];
+  let previous: SampledFrame | null = null;
+  let interval = 0;
+  let firstTime: number | null = null;
+
+  return {
+    addFrame: (frame) => {
+      if (firstTime === null) firstTime = frame.time;
+      if (previous) {
+        interval = frame.time - previous.time;
+        const identical = maxDifference(previous.image, frame.image) <= FROZEN_PIXEL_TOLERANCE;
+        if (identical && !isBlackFrame(frame.image)) {
+          if (frozenTimes[frozenTimes.length - 1] !== previous.time) frozenTimes.push(previous.time);
+          frozenTimes.push(frame.time);
+        }
+      }
+      previous = frame;
+    },
+
+    finish: () => {
+      const lastTime = previous?.time ?? 0;
+      const freezes = toRanges(frozenTimes, interval * 1.5).filter(range =>
+        range.end - range.start >= FROZEN_MIN_SECONDS &&
+        range.start > (firstTime ?? 0) &&
+        range.end < lastTime - END_CARD_SECONDS
+      );
+      return { freezes };
+    },
+  };
+};
+
+/**
+ * Focus measure: variance of the 4-neighbour Laplacian of the luma.
+ * Returns null for flat frames where there's nothing to be in focus.
+ */
+const laplacianVariance = ({ data, width, height }: ImageData): number | null => {
+  const lumas = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < lumas.length; i++) {
+    lumas[i] = luma(data, i * 4);
+    sum += lumas[i];
+  }
+
+  const mean = sum / lumas.length;
+  let variance = 0;
+  for (let i = 0; i < lumas.length; i++) variance += (lumas[i] - mean) ** 2;
+  if (Math.sqrt(variance / lumas.length) < FLAT_FRAME_STDDEV) return null;
+
+  let lapSum = 0;
+  let lapSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = lumas[i - 1] + lumas[i + 1] + lumas[i - width] + lumas[i + width] - 4 * lumas[i];
+      lapSum += lap;
+      lapSquares += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return null;
+
+  const lapMean = lapSum / count;
+  return lapSquares / count - lapMean * lapMean;
+};
+
+/**
+ * Blur detector: judges focus on the native-resolution centre crop
+ * (falling back to the scaled frame). A frame is blurry when it's soft
+ * in absolute terms or far softer than the rest of the video; single
+ * soft samples are treated as motion blur and ignored.
+ */
+export const createBlurDetector = (): FrameDetector<BlurScan> => {
+  const samples: { time: number; sharpness: number }[] = [];
+  let interval = 0;
+  let lastTime: number | null = null;
+
+  return {
+    addFrame: ({ time, image, detail }) => {
+      if (lastTime !== null) interval = time - lastTime;
+      lastTime = time;
+
+      const sharpness = laplacianVariance(detail || image);
+      if (sharpness !== null) samples.push({ time, sharpness });
+    },
+
+    finish: () => {
+      const medianSharpness = samples.length > 0 ? median(samples.map(s => s.sharpness)) : 0;
+      const threshold = Math.max(BLUR_SHARPNESS, medianSharpness * BLUR_RELATIVE);
+      const blurryTimes = samples.filter(s => s.sharpness < threshold).map(s => s.time);
+      const blurry = toRanges(blurryTimes, interval * 1.5).filter(range => range.end > range.start);
+      const blurryCount = blurryTimes.filter(t => blurry.some(r => t >= r.start && t <= r.end)).length;
+
+      return {
+        frameCount: samples.length,
+        blurryCount,
+        blurry,
+        medianSharpness: Math.round(medianSharpness),
+      };
+    },
+  };
+};
+
+// ==========================================
+// PACING DETECTOR
+// ==========================================
+
+/**
+ * Shot-boundary detector: a cut is a large jump in color histogram
+ * between consecutive samples. Also tracks per-second visual activity
+ * and the longest stretch where nothing on screen changes.
+ */
+export const createPacingDetector = (): FrameDetector<PacingAnalysis> => {
+  const cuts: number[] = [];
+  const activityBySecond: number[][] = [];
+  let previous: { frame: SampledFrame; histogram: Float32Array } | null = null;
+  let staticStart: number | null = null;
+  let longestStatic = { start: 0, end: 0, duration: 0 };
+
+  const closeStaticStretch = (end: number) => {
+    if (staticStart !== null && end - staticStart > longestStatic.duration) {
+      longestStatic = { start: staticStart, end, duration: end - staticStart };
+    }
+    staticStart = null;
+  };
+
+  return {
+    addFrame: (frame) => {
+      const current = { frame, histogram: histogram(frame.image) };
+
+      if (previous) {
+        const change = motion(previous.frame.image, frame.image);
+        const isCut = histogramDistance(previous.histogram, current.histogram) > CUT_THRESHOLD;
+
+        if (isCut) cuts.push(frame.time);
+
+        const second = Math.floor(frame.time);
+        (activityBySecond[second] ||= []).push(isCut ? 1 : Math.min(1, change * 10));
+
+        if (!isCut && change < STATIC_THRESHOLD) {
+          if (staticStart === null) staticStart = previous.frame.time;
+        } else {
+          closeStaticStretch(previous.frame.time);
+        }
+      }
+
+      previous = current;
+    },
+
+    finish: (duration) => {
+      closeStaticStretch(duration);
+
+      const round = (n: number) => Math.round(n * 100) / 100;
+      const seconds = Math.ceil(duration);
+      const activity = Array.from({ length: seconds }, (_, i) => {
+        const values = activityBySecond[i] || [];
+        return values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+      });
+
+      return {
+        cuts: cuts.map(round),
+        shotCount: cuts.length + 1,
+        averageShotLength: round(duration / (cuts.length + 1)),
+        cutsPerMinute: round((cuts.length / duration) * 60),
+        longestStaticStretch: {
+          start: round(longestStatic.start),
+          end: round(longestStatic.end),
+          duration: round(longestStatic.duration),
+        },
+        activity,
+      };
+    },
+  };
+};
@@ -1,5 +1,6 @@
 import { jsPDF } from 'jspdf';
 import { AuditRecord } from '../types';
+import { getTechnicalChecks } from './technicalAnalysis';
 
 // ==========================================
 // PDF REPORT GENERATOR
@@ -196,7 +197,7 @@ export const generateAuditPDF = (audit: AuditRecord, whiteLabel: boolean = false
     doc.text('Technical Specs', margin, y);
     y += 10;
 
-    const techChecks = Object.values(audit.technical_analysis) as any[];
+    const techChecks = getTechnicalChecks(audit.technical_analysis);
     const failedTech = techChecks.filter(c => c.status === 'FAIL');
     const warnTech = techChecks.filter(c => c.status === 'WARN');
     const passTech = techChecks.filter(c => c.status === 'PASS');
@@ -0,0 +1,139 @@
+// ==========================================
+// PLATFORM SPECS
+// UI overlays and delivery specs for each placement
+// ==========================================
+
+import { PlatformProfile, PlatformProfileId, SafeZonePlatform } from '../types';
+
+// ==========================================
+// SAFE ZONES
+// ==========================================
+export interface SafeZoneRegion {
+  name: string;
+  // Fractions of the frame, measured on a 9:16 (1080x1920) canvas
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SafeZoneLayout {
+  label: string;
+  regions: SafeZoneRegion[];
+}
+
+/**
+ * Areas covered by each app's UI on a full-screen vertical video.
+ * Anything important placed here gets hidden behind buttons or captions.
+ */
+export const SAFE_ZONES: Record<SafeZonePlatform, SafeZoneLayout> = {
+  tiktok: {
+    label: 'TikTok',
+    regions: [
+      { name: 'Top bar', x: 0, y: 0, width: 1, height: 0.07 },
+      { name: 'Caption area', x: 0, y: 0.74, width: 0.85, height: 0.26 },
+      { name: 'Button rail', x: 0.86, y: 0.35, width: 0.14, height: 0.65 },
+    ],
+  },
+  reels: {
+    label: 'Reels',
+    regions: [
+      { name: 'Top bar', x: 0, y: 0, width: 1, height: 0.11 },
+      { name: 'Caption area', x: 0, y: 0.76, width: 0.85, height: 0.24 },
+      { name: 'Button rail', x: 0.87, y: 0.45, width: 0.13, height: 0.55 },
+    ],
+  },
+  shorts: {
+    label: 'Shorts',
+    regions: [
+      { name: 'Top bar', x: 0, y: 0, width: 1, height: 0.08 },
+      { name: 'Caption area', x: 0, y: 0.72, width: 0.82, height: 0.28 },
+      { name: 'Button rail', x: 0.84, y: 0.4, width: 0.16, height: 0.6 },
+    ],
+  },
+};
+
+// ==========================================
+// PLATFORM PROFILES
+// ==========================================
+
+// Every major feed normalizes playback to around -14 LUFS
+const STREAMING_LOUDNESS = { integrated: -14, tolerance: 2, truePeak: -1 };
+
+export const DEFAULT_PROFILE_ID: PlatformProfileId = 'tiktok';
+
+/**
+ * Delivery specs the technical checks are evaluated against
+ */
+export const PLATFORM_PROFILES: Record<PlatformProfileId, PlatformProfile> = {
+  tiktok: {
+    id: 'tiktok',
+    label: 'TikTok',
+    aspectRatios: { preferred: ['9:16'], accepted: ['4:5', '1:1'] },
+    duration: { ideal: 30, max: 90 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 500,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: ['tiktok'],
+  },
+  reels: {
+    id: 'reels',
+    label: 'Instagram Reels',
+    aspectRatios: { preferred: ['9:16'], accepted: ['4:5', '1:1'] },
+    duration: { ideal: 30, max: 90 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 4096,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: ['reels'],
+  },
+  shorts: {
+    id: 'shorts',
+    label: 'YouTube Shorts',
+    aspectRatios: { preferred: ['9:16'], accepted: ['1:1'] },
+    duration: { ideal: 30, max: 60 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 4096,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: ['shorts'],
+  },
+  meta_feed: {
+    id: 'meta_feed',
+    label: 'Meta Feed',
+    aspectRatios: { preferred: ['4:5', '1:1'], accepted: ['9:16', '16:9'] },
+    duration: { ideal: 15, max: 60 },
+    resolution: { recommended: 1080, minimum: 600 },
+    maxFileSizeMB: 4096,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: [],
+  },
+  youtube_preroll: {
+    id: 'youtube_preroll',
+    label: 'YouTube Pre-roll',
+    aspectRatios: { preferred: ['16:9'], accepted: ['1:1'] },
+    duration: { ideal: 15, max: 60 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 4096,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: [],
+  },
+  snapchat: {
+    id: 'snapchat',
+    label: 'Snapchat',
+    aspectRatios: { preferred: ['9:16'], accepted: [] },
+    duration: { ideal: 10, max: 30 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 1024,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: [],
+  },
+  custom: {
+    id: 'custom',
+    label: 'Custom',
+    aspectRatios: { preferred: ['9:16'], accepted: ['4:5', '1:1'] },
+    duration: { ideal: 30, max: 90 },
+    resolution: { recommended: 1080, minimum: 720 },
+    maxFileSizeMB: 500,
+    loudness: STREAMING_LOUDNESS,
+    safeZones: ['tiktok', 'reels', 'shorts'],
+  },
+};
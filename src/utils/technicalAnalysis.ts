@@ -3,56 +3,223 @@
 // Level 1 Features - Client-side checks
 // ==========================================
 
-import { TechnicalAnalysis, TechnicalCheck } from '../types';
+import {
+  TechnicalAnalysis,
+  TechnicalCheck,
+  TechnicalCheckKey,
+  TechnicalScoringConfig,
+  TechnicalScoreBreakdown,
+  PlatformProfile,
+  AspectRatioName,
+  SafeZonePlatform,
+  SafeZoneSnapshot,
+} from '../types';
+import {
+  getFrameRate,
+  ContainerInfo,
+  ContainerTrack,
+  CodecFamily,
+  FrameRateInfo,
+  TRANSFER_PQ,
+  TRANSFER_HLG,
+} from './containerParser';
+import {
+  decodeAudioTrack,
+  SilenceReport,
+  LoudnessReport,
+  OPENING_SECONDS,
+} from './audioAnalysis';
+import {
+  sampleFrames,
+  frameToDataUrl,
+  SampleOptions,
+  FrameBorders,
+  SafeZoneScan,
+  BlackFrameScan,
+  FrozenFrameScan,
+  BlurScan,
+} from './frameAnalysis';
+import { useState, useEffect } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '../context/AuthContext';
+import { useSubscription } from '../context/SubscriptionContext';
+import { SAFE_ZONES, PLATFORM_PROFILES, DEFAULT_PROFILE_ID } from './platforms';
+import type {
+  FrameScan,
+  AnalysisWorkerMessage,
+  AnalysisWorkerResults,
+  AnalysisWorkerResponse,
+} from './technicalAnalysis.worker';
+
+interface FrameRateMeasurement extends FrameRateInfo {
+  method: 'container' | 'playback' | 'assumed';
+}
+
+interface AudioMeasurement {
+  hasTrack: boolean | null; // null when neither the container nor a decode could tell
+  silence: SilenceReport | null;
+  loudness: LoudnessReport | null;
+}
 
 interface VideoMetadata {
   width: number;
   height: number;
   duration: number;
-  frameRate: number;
-  hasAudio: boolean;
+  frameRate: FrameRateMeasurement;
+  audio: AudioMeasurement;
+  container: ContainerInfo | null;
   fileSize: number;
   fileName: string;
 }
 
 /**
- * Extract metadata from a video file
+ * Everything measured from a file. Measuring is the slow part; checks
+ * are evaluated from this, so switching profiles doesn't re-scan the video.
  */
-export const extractVideoMetadata = (file: File): Promise<VideoMetadata> => {
+export interface VideoMeasurements {
+  metadata: VideoMetadata;
+  frames: FrameScan;
+}
+
+export interface MeasureOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, message: string) => void;
+}
+
+interface ElementMetadata {
+  width: number;
+  height: number;
+  duration: number;
+  hasAudioTracks: boolean;
+}
+
+// How long to play the video when measuring frame rate from playback
+const PLAYBACK_SAMPLE_SECONDS = 1.5;
+
+// Frame sampling for the visual scanners: 4 frames per second, capped
+// so long videos don't take forever to seek through. Focus is judged on
+// a native-resolution centre crop, since downscaling hides blur.
+const FRAME_SAMPLING: SampleOptions = {
+  interval: 0.25,
+  maxSamples: 240,
+  width: 160,
+  detailSize: 320,
+};
+
+// Borders thinner than this (per side) are compression noise, not bars
+const MIN_BAR_FRACTION = 0.02;
+
+// Loudness range beyond this means quiet parts get lost on phone speakers
+const MAX_LOUDNESS_RANGE = 15;
+
+// Safe zones are laid out for full-screen vertical video only
+const MAX_SAFE_ZONE_RATIO = 0.6;
+
+// Samples further apart than this start a new safe-zone violation
+const VIOLATION_GAP_SECONDS = 0.5;
+
+// Video bitrate (Mbps) platforms recommend uploading at 30fps, by short side
+const RECOMMENDED_BITRATES: { minShortSide: number; mbps: number }[] = [
+  { minShortSide: 2160, mbps: 35 },
+  { minShortSide: 1440, mbps: 16 },
+  { minShortSide: 1080, mbps: 8 },
+  { minShortSide: 720, mbps: 5 },
+  { minShortSide: 0, mbps: 2.5 },
+];
+
+const CODEC_NAMES: Record<CodecFamily, string> = {
+  h264: 'H.264', hevc: 'HEVC', av1: 'AV1', vp9: 'VP9', vp8: 'VP8', prores: 'ProRes',
+  aac: 'AAC', opus: 'Opus', vorbis: 'Vorbis', mp3: 'MP3', pcm: 'PCM', alac: 'ALAC', ac3: 'AC-3', eac3: 'E-AC-3',
+  other: 'Unknown',
+};
+
+const COLOR_PRIMARIES: Record<number, string> = { 1: 'BT.709', 5: 'BT.601', 6: 'BT.601', 9: 'BT.2020', 11: 'DCI-P3', 12: 'Display P3' };
+
+// ==========================================
+// ANALYSIS WORKER
+// ==========================================
+interface AnalysisWorker {
+  request: <T extends AnalysisWorkerMessage>(message: T, transfer?: Transferable[]) => Promise<AnalysisWorkerResults[T['type']]>;
+  post: (message: AnalysisWorkerMessage, transfer?: Transferable[]) => void;
+  terminate: () => void;
+}
+
+const abortError = () => new DOMException('Technical analysis canceled', 'AbortError');
+
+/**
+ * Start a worker for one analysis run. Aborting the signal terminates
+ * the worker and rejects everything still waiting on it.
+ */
+const createAnalysisWorker = (signal?: AbortSignal): AnalysisWorker => {
+  const worker = new Worker(new URL('./technicalAnalysis.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  const failAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  const terminate = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+    failAll(abortError());
+  };
+
+  const onAbort = () => terminate();
+  signal?.addEventListener('abort', onAbort);
+
+  worker.onmessage = ({ data }: MessageEvent<AnalysisWorkerResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if ('error' in data) {
+      request.reject(new Error(data.error));
+    } else {
+      request.resolve(data.result);
+    }
+  };
+  worker.onerror = (event) => {
+    failAll(new Error(event.message || 'Technical analysis worker crashed'));
+  };
+
+  return {
+    request: (message, transfer = []) => {
+      if (signal?.aborted) return Promise.reject(abortError());
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        worker.postMessage({ ...message, id }, transfer);
+      });
+    },
+    post: (message, transfer = []) => {
+      worker.postMessage({ ...message, id: nextId++ }, transfer);
+    },
+    terminate,
+  };
+};
+
+// ==========================================
+// MEASUREMENT
+// ==========================================
+
+/**
+ * Read the basic properties the browser exposes on a <video> element
+ */
+const readElementMetadata = (file: File): Promise<ElementMetadata> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     video.preload = 'metadata';
     
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    
-    video.onloadedmetadata = async () => {
-      // Check for audio track
-      let hasAudio = false;
-      
-      // Method 1: Check video element's audioTracks (if available)
-      if ((video as any).audioTracks && (video as any).audioTracks.length > 0) {
-        hasAudio = true;
-      }
-      
-      // Method 2: Try to detect audio via MediaSource (fallback)
-      // For now, we'll assume audio exists if duration > 0 (most ads have audio)
-      // This can be improved with more sophisticated detection
-      if (video.duration > 0) {
-        hasAudio = true; // Conservative assumption
-      }
-      
-      // Calculate approximate frame rate (usually 30 or 60 fps)
-      // This is an approximation - actual frame rate requires more complex parsing
-      const frameRate = 30; // Default assumption for social media videos
+    video.onloadedmetadata = () => {
+      // audioTracks is only exposed by Safari, but it's a free positive signal
+      const audioTracks = (video as any).audioTracks;
       
       resolve({
         width: video.videoWidth,
         height: video.videoHeight,
         duration: video.duration,
-        frameRate: frameRate,
-        hasAudio: hasAudio,
-        fileSize: file.size,
-        fileName: file.name,
+        hasAudioTracks: !!audioTracks && audioTracks.length > 0,
       });
       
       URL.revokeObjectURL(video.src);
@@ -67,31 +234,191 @@ export const extractVideoMetadata = (file: File): Promise<VideoMetadata> => {
   });
 };
 
+/**
+ * Measure frame rate by playing the video muted and timing the frames
+ * the browser presents. Used when the container can't be parsed (WebM, AVI).
+ */
+const measurePlaybackFrameRate = (file: File): Promise<FrameRateInfo | null> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    if (typeof video.requestVideoFrameCallback !== 'function') {
+      resolve(null);
+      return;
+    }
+
+    video.muted = true;
+    video.playsInline = true;
+
+    const url = URL.createObjectURL(file);
+    const mediaTimes: number[] = [];
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeout);
+      video.pause();
+      URL.revokeObjectURL(url);
+
+      const deltas = mediaTimes
+        .slice(1)
+        .map((t, i) => t - mediaTimes[i])
+        .filter(d => d > 0);
+      if (deltas.length < 5) {
+        resolve(null);
+        return;
+      }
+
+      const median = [...deltas].sort((a, b) => a - b)[Math.floor(deltas.length / 2)];
+
+      // Frames dropped during playback show up as whole multiples of the
+      // frame duration; anything else points to a variable frame rate.
+      const irregular = deltas.filter(d => {
+        const multiple = d / median;
+        return Math.abs(multiple - Math.round(multiple)) > 0.1 || Math.round(multiple) < 1;
+      });
+      const frameDurations = [median, ...irregular];
+
+      resolve({
+        average: 1 / median,
+        min: 1 / Math.max(...frameDurations),
+        max: 1 / Math.min(...frameDurations),
+        variable: irregular.length / deltas.length > 0.1,
+      });
+    };
+
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (metadata.mediaTime >= PLAYBACK_SAMPLE_SECONDS || video.ended) {
+        finish();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+
+    const timeout = setTimeout(finish, PLAYBACK_SAMPLE_SECONDS * 1000 + 2000);
+
+    video.onloadeddata = () => {
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(finish);
+    };
+    video.onended = finish;
+    video.onerror = finish;
+    video.src = url;
+  });
+};
+
+/**
+ * Measure the real frame rate: container sample table first,
+ * playback timing second, 30fps assumption as a last resort
+ */
+const measureFrameRate = async (
+  file: File,
+  container: ContainerInfo | null
+): Promise<FrameRateMeasurement> => {
+  const videoTrack = container?.tracks.find(t => t.type === 'video');
+  const fromContainer = videoTrack ? getFrameRate(videoTrack) : null;
+  if (fromContainer) {
+    return { ...fromContainer, method: 'container' };
+  }
+
+  const fromPlayback = await measurePlaybackFrameRate(file);
+  if (fromPlayback) {
+    return { ...fromPlayback, method: 'playback' };
+  }
+
+  return { average: 30, min: 30, max: 30, variable: false, method: 'assumed' };
+};
+
+/**
+ * Detect the audio track and check whether it's actually silent.
+ * The container track list is authoritative; decoding fills the gaps
+ * for formats we can't parse.
+ */
+const measureAudio = async (
+  file: File,
+  container: ContainerInfo | null,
+  hasAudioTracks: boolean,
+  worker: AnalysisWorker,
+  signal?: AbortSignal
+): Promise<AudioMeasurement> => {
+  const containerHasTrack = container
+    ? container.tracks.some(t => t.type === 'audio')
+    : null;
+
+  if (containerHasTrack === false) {
+    return { hasTrack: false, silence: null, loudness: null };
+  }
+
+  const decoded = await decodeAudioTrack(file);
+  signal?.throwIfAborted();
+  if (decoded) {
+    // Channel data belongs to the AudioBuffer, so hand the worker a copy it can own
+    const channels = decoded.channels.map(channel => channel.slice());
+    const { silence, loudness } = await worker.request(
+      { type: 'audio', audio: { ...decoded, channels } },
+      channels.map(channel => channel.buffer)
+    );
+    return { hasTrack: true, silence, loudness };
+  }
+
+  return {
+    hasTrack: containerHasTrack || hasAudioTracks || null,
+    silence: null,
+    loudness: null,
+  };
+};
+
+/**
+ * Extract metadata from a video file
+ */
+const extractVideoMetadata = async (
+  file: File,
+  worker: AnalysisWorker,
+  report: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<VideoMetadata> => {
+  report(0, 'Reading video specs...');
+  const { hasAudioTracks, ...element } = await readElementMetadata(file);
+  report(5, 'Inspecting codecs...');
+  const container = await worker.request({ type: 'container', file });
+  report(10, 'Measuring frame rate...');
+  const frameRate = await measureFrameRate(file, container);
+  report(15, 'Measuring audio...');
+  const audio = await measureAudio(file, container, hasAudioTracks, worker, signal);
+
+  return {
+    ...element,
+    frameRate,
+    audio,
+    container,
+    fileSize: file.size,
+    fileName: file.name,
+  };
+};
+
 /**
  * Analyze resolution quality
  */
-const analyzeResolution = (width: number, height: number): TechnicalCheck => {
-  const pixels = width * height;
-  const isVertical = height > width;
+const analyzeResolution = (width: number, height: number, profile: PlatformProfile): TechnicalCheck => {
+  const shortSide = Math.min(width, height);
+  const { recommended, minimum } = profile.resolution;
   
-  // For vertical video (9:16), ideal is 1080x1920
-  // For horizontal video (16:9), ideal is 1920x1080
-  
-  if (pixels >= 1920 * 1080) {
+  if (shortSide >= recommended) {
     return {
       label: 'Resolution',
       status: 'PASS',
       value: `${width}x${height}`,
-      details: 'Full HD or higher. Your video will look crisp on all devices.',
+      details: `${recommended}p or higher. Your video will look crisp on ${profile.label}.`,
       fix: undefined,
     };
-  } else if (pixels >= 1280 * 720) {
+  } else if (shortSide >= minimum) {
     return {
       label: 'Resolution',
       status: 'WARN',
       value: `${width}x${height}`,
       details: 'HD quality. Acceptable but may look slightly soft on larger screens.',
-      fix: 'For best results, export at 1080p (1080x1920 for vertical, 1920x1080 for horizontal).',
+      fix: `For best results on ${profile.label}, export at ${recommended}p (${recommended} pixels on the short side).`,
     };
   } else {
     return {
@@ -99,66 +426,65 @@ const analyzeResolution = (width: number, height: number): TechnicalCheck => {
       status: 'FAIL',
       value: `${width}x${height}`,
       details: 'Low resolution. Your video will look blurry and pixelated, especially on phones. This screams "amateur" and kills trust instantly.',
-      fix: 'Re-export your video at minimum 720p, ideally 1080p. If this is from a screen recording, increase your capture resolution.',
+      fix: `Re-export your video at minimum ${minimum}p, ideally ${recommended}p. If this is from a screen recording, increase your capture resolution.`,
     };
   }
 };
 
+const ASPECT_RATIOS: {
+  name: AspectRatioName;
+  min: number;
+  max: number;
+  orientation: 'Vertical' | 'Square' | 'Horizontal';
+  dimensions: string;
+}[] = [
+  { name: '9:16', min: 0.5, max: 0.6, orientation: 'Vertical', dimensions: '1080x1920' },
+  { name: '4:5', min: 0.75, max: 0.85, orientation: 'Vertical', dimensions: '1080x1350' },
+  { name: '1:1', min: 0.95, max: 1.05, orientation: 'Square', dimensions: '1080x1080' },
+  { name: '16:9', min: 1.7, max: 1.85, orientation: 'Horizontal', dimensions: '1920x1080' },
+];
+
 /**
- * Analyze aspect ratio for platform compatibility
+ * Classify an aspect ratio against the profile's preferred and accepted formats
  */
-const analyzeAspectRatio = (width: number, height: number): TechnicalCheck => {
+const classifyAspectRatio = (width: number, height: number, profile: PlatformProfile): TechnicalCheck => {
   const ratio = width / height;
+  const match = ASPECT_RATIOS.find(r => ratio >= r.min && ratio <= r.max);
+  const preferred = ASPECT_RATIOS.find(r => r.name === profile.aspectRatios.preferred[0]) || ASPECT_RATIOS[0];
+  const preferredFormat = `${preferred.name} (${preferred.dimensions})`;
   
-  // 9:16 vertical (TikTok, Reels, Shorts) = 0.5625
-  // 1:1 square (Instagram Feed) = 1.0
-  // 16:9 horizontal (YouTube) = 1.778
-  // 4:5 vertical (Instagram Feed optimal) = 0.8
-  
-  if (ratio >= 0.5 && ratio <= 0.6) {
-    // 9:16 vertical - perfect for TikTok/Reels/Shorts
+  if (match && profile.aspectRatios.preferred.includes(match.name)) {
     return {
       label: 'Aspect Ratio',
       status: 'PASS',
-      value: '9:16 (Vertical)',
-      details: 'Perfect for TikTok, Instagram Reels, and YouTube Shorts. Full-screen vertical format.',
+      value: `${match.name} (${match.orientation})`,
+      details: `Perfect for ${profile.label}. Native format that fills the screen the way the platform expects.`,
       fix: undefined,
     };
-  } else if (ratio >= 0.75 && ratio <= 0.85) {
-    // 4:5 vertical - good for Instagram Feed
-    return {
-      label: 'Aspect Ratio',
-      status: 'PASS',
-      value: '4:5 (Vertical)',
-      details: 'Great for Instagram Feed. Takes up maximum space in the feed.',
-      fix: undefined,
-    };
-  } else if (ratio >= 0.95 && ratio <= 1.05) {
-    // 1:1 square
+  } else if (match && profile.aspectRatios.accepted.includes(match.name)) {
     return {
       label: 'Aspect Ratio',
       status: 'WARN',
-      value: '1:1 (Square)',
-      details: 'Square format works on Instagram Feed but wastes space on TikTok and Reels where vertical (9:16) performs better.',
-      fix: 'If targeting TikTok or Reels, re-export as 9:16 vertical (1080x1920) for full-screen impact.',
+      value: `${match.name} (${match.orientation})`,
+      details: `${match.name} works on ${profile.label} but wastes space where ${preferred.name} performs better.`,
+      fix: `If ${profile.label} is the main placement, re-export as ${preferredFormat} for full-screen impact.`,
     };
-  } else if (ratio >= 1.7 && ratio <= 1.85) {
-    // 16:9 horizontal - YouTube style
+  } else if (match) {
     return {
       label: 'Aspect Ratio',
       status: 'FAIL',
-      value: '16:9 (Horizontal)',
-      details: 'Horizontal video on TikTok/Reels = DISASTER. You get tiny letterboxed video with huge black bars. Nobody can read your text. This is the #1 amateur mistake.',
-      fix: 'CRITICAL: Re-edit your video in 9:16 vertical format (1080x1920). Crop, reframe, or reshoot. Black bars kill conversions.',
+      value: `${match.name} (${match.orientation})`,
+      details: `${match.name} on ${profile.label} = DISASTER. You get a tiny video with huge black bars or a brutal crop. Nobody can read your text. This is the #1 amateur mistake.`,
+      fix: `CRITICAL: Re-edit your video in ${preferredFormat}. Crop, reframe, or reshoot. Black bars kill conversions.`,
     };
-  } else if (ratio > 1.05 && ratio < 1.7) {
-    // Weird horizontal ratio
+  } else if ((ratio < 1) !== (preferred.orientation === 'Vertical')) {
+    // Non-standard and the wrong orientation for this placement
     return {
       label: 'Aspect Ratio',
       status: 'FAIL',
       value: `${ratio.toFixed(2)}:1 (Non-standard)`,
-      details: 'Non-standard aspect ratio. Will have awkward cropping or black bars on every platform.',
-      fix: 'Re-export in a standard format: 9:16 for TikTok/Reels, 1:1 for Instagram Feed, or 16:9 for YouTube.',
+      details: `Non-standard aspect ratio in the wrong orientation for ${profile.label}. Will have awkward cropping or black bars.`,
+      fix: `Re-export in ${preferredFormat}.`,
     };
   } else {
     // Very narrow vertical or unusual
@@ -166,30 +492,85 @@ const analyzeAspectRatio = (width: number, height: number): TechnicalCheck => {
       label: 'Aspect Ratio',
       status: 'WARN',
       value: `${ratio.toFixed(2)}:1`,
-      details: 'Unusual aspect ratio. May not display optimally on social platforms.',
-      fix: 'Standard formats: 9:16 (vertical), 1:1 (square), or 16:9 (horizontal for YouTube only).',
+      details: `Unusual aspect ratio. May not display optimally on ${profile.label}.`,
+      fix: `Standard format for ${profile.label}: ${preferredFormat}.`,
     };
   }
 };
 
 /**
- * Analyze video duration for platform requirements
+ * Analyze aspect ratio for platform compatibility, judged on the active
+ * picture when black bars or blank borders were detected in the frames
  */
-const analyzeDuration = (duration: number): TechnicalCheck => {
+const analyzeAspectRatio = (
+  width: number,
+  height: number,
+  profile: PlatformProfile,
+  borders?: FrameBorders | null
+): TechnicalCheck => {
+  const container = classifyAspectRatio(width, height, profile);
+  if (!borders) return container;
+
+  const vertical = borders.top + borders.bottom;
+  const horizontal = borders.left + borders.right;
+  const hasBars = Math.max(borders.top, borders.bottom, borders.left, borders.right) >= MIN_BAR_FRACTION;
+  if (!hasBars) return { ...container, method: 'frames' };
+
+  const activeWidth = Math.round(width * (1 - horizontal));
+  const activeHeight = Math.round(height * (1 - vertical));
+  const active = classifyAspectRatio(activeWidth, activeHeight, profile);
+  const barType = vertical >= horizontal ? 'Letterboxed' : 'Pillarboxed';
+  const activeArea = `${activeWidth}x${activeHeight}`;
+  const measured = { measured: Math.round((activeWidth / activeHeight) * 1000) / 1000, method: 'frames' };
+
+  if (container.status === 'FAIL') {
+    return {
+      ...container,
+      details: `${container.details} On top of that, the frame is ${barType.toLowerCase()} - the actual picture is only ${activeArea}.`,
+      ...measured,
+    };
+  }
+
+  if (active.status === 'FAIL') {
+    return {
+      label: 'Aspect Ratio',
+      status: 'FAIL',
+      value: `${active.value} inside ${container.value}`,
+      details: `${barType}. Your file is ${width}x${height}, but the actual picture is only ${activeArea}. That's the wrong shape for ${profile.label} with bars around it - it shows up as a small strip and nobody can read your text.`,
+      fix: `CRITICAL: Re-edit in a true ${profile.aspectRatios.preferred[0]} frame. Crop or reframe the footage to fill the whole screen instead of padding it with bars.`,
+      ...measured,
+    };
+  }
+
+  return {
+    label: 'Aspect Ratio',
+    status: 'WARN',
+    value: `${active.value} (${barType})`,
+    details: `${barType}: ${Math.round((1 - (1 - vertical) * (1 - horizontal)) * 100)}% of your ${width}x${height} frame is blank border, leaving a ${activeArea} picture. Bars waste screen space and look unprofessional in the feed.`,
+    fix: 'Scale or crop your footage to fill the frame edge to edge, then re-export.',
+    ...measured,
+  };
+};
+
+/**
+ * Analyze video duration against the profile's length limits
+ */
+const analyzeDuration = (duration: number, profile: PlatformProfile): TechnicalCheck => {
   const seconds = Math.round(duration);
   const formatted = seconds >= 60 
     ? `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
     : `${seconds}s`;
+  const { ideal, max } = profile.duration;
   
-  if (seconds <= 15) {
+  if (seconds <= ideal / 2) {
     return {
       label: 'Duration',
       status: 'PASS',
       value: formatted,
-      details: 'Perfect length for TikTok and Reels. Short, punchy, and easy to watch multiple times.',
+      details: `Perfect length for ${profile.label}. Short, punchy, and easy to watch multiple times.`,
       fix: undefined,
     };
-  } else if (seconds <= 30) {
+  } else if (seconds <= ideal) {
     return {
       label: 'Duration',
       status: 'PASS',
@@ -197,43 +578,43 @@ const analyzeDuration = (duration: number): TechnicalCheck => {
       details: 'Good length. Short enough to hold attention, long enough to tell a story.',
       fix: undefined,
     };
-  } else if (seconds <= 60) {
-    return {
-      label: 'Duration',
-      status: 'WARN',
-      value: formatted,
-      details: 'Getting long for TikTok/Reels. Most viewers drop off after 30 seconds. Every second needs to earn its place.',
-      fix: 'Review your video ruthlessly. Can you cut 10-15 seconds without losing the message? Shorter = higher completion rate = better algorithm performance.',
-    };
-  } else if (seconds <= 90) {
+  } else if (seconds <= max) {
     return {
       label: 'Duration',
       status: 'WARN',
       value: formatted,
-      details: 'Long for social ads. Completion rates drop significantly after 60 seconds unless content is exceptionally engaging.',
-      fix: 'Try cutting this into 2-3 shorter variations (15s, 30s). Test which length performs best.',
+      details: `Getting long for ${profile.label}. Most viewers drop off after ${ideal} seconds. Every second needs to earn its place.`,
+      fix: `Review your video ruthlessly. Can you get it under ${ideal} seconds without losing the message? Shorter = higher completion rate = better algorithm performance. Or cut 2-3 shorter variations and test them.`,
     };
   } else {
     return {
       label: 'Duration',
       status: 'FAIL',
       value: formatted,
-      details: 'Too long for most social platforms. TikTok and Reels penalize low completion rates. Most users won\'t watch past 60 seconds.',
-      fix: 'Cut this down to under 60 seconds. Better yet, make a 15-30 second version. Save longer content for YouTube.',
+      details: `Too long for ${profile.label}. Completion rates crash past ${max} seconds and the algorithm penalizes low completion.`,
+      fix: `Cut this down to under ${max} seconds. Better yet, make a ${Math.round(ideal / 2)}-${ideal} second version.`,
     };
   }
 };
 
 /**
- * Analyze file size
+ * Analyze file size against the profile's upload limit
  */
-const analyzeFileSize = (fileSize: number): TechnicalCheck => {
+const analyzeFileSize = (fileSize: number, profile: PlatformProfile): TechnicalCheck => {
   const sizeMB = fileSize / (1024 * 1024);
   const formatted = sizeMB >= 1000 
     ? `${(sizeMB / 1024).toFixed(2)} GB`
     : `${sizeMB.toFixed(1)} MB`;
   
-  if (sizeMB <= 50) {
+  if (sizeMB > profile.maxFileSizeMB) {
+    return {
+      label: 'File Size',
+      status: 'FAIL',
+      value: formatted,
+      details: `Over the ${profile.maxFileSizeMB >= 1024 ? `${profile.maxFileSizeMB / 1024} GB` : `${profile.maxFileSizeMB} MB`} upload limit for ${profile.label}. The platform will reject this file.`,
+      fix: 'Re-export with H.264 at a lower bitrate (8-12 Mbps for 1080p is usually sufficient).',
+    };
+  } else if (sizeMB <= 50) {
     return {
       label: 'File Size',
       status: 'PASS',
@@ -263,22 +644,49 @@ const analyzeFileSize = (fileSize: number): TechnicalCheck => {
 /**
  * Analyze frame rate
  */
-const analyzeFrameRate = (frameRate: number): TechnicalCheck => {
-  if (frameRate >= 29 && frameRate <= 31) {
+const analyzeFrameRate = (measurement: FrameRateMeasurement): TechnicalCheck => {
+  const frameRate = Math.round(measurement.average * 100) / 100;
+  const measured = { measured: frameRate, method: measurement.method };
+
+  if (measurement.method === 'assumed') {
     return {
       label: 'Frame Rate',
       status: 'PASS',
-      value: '30 fps',
+      value: '30 fps (est.)',
+      details: 'Frame rate could not be measured for this file format. Assuming the social media standard of 30fps.',
+      fix: undefined,
+      ...measured,
+    };
+  } else if (measurement.variable) {
+    const min = Math.round(measurement.min);
+    const max = Math.round(measurement.max);
+    return {
+      label: 'Frame Rate',
+      status: min < 23 ? 'FAIL' : 'WARN',
+      value: `Variable (${min}-${max} fps)`,
+      details: min < 23
+        ? 'Variable frame rate that drops below 23fps. Parts of this video will stutter and look choppy. Common with screen recordings and phone footage.'
+        : 'Variable frame rate. Platforms may re-encode this unevenly, causing stutter or audio drift. Common with phone footage and screen recordings.',
+      fix: 'Re-export with a constant frame rate (30fps). In Premiere/CapCut/HandBrake, pick "Constant Frame Rate" in the export settings.',
+      ...measured,
+    };
+  } else if (frameRate >= 29 && frameRate <= 31) {
+    return {
+      label: 'Frame Rate',
+      status: 'PASS',
+      value: `${frameRate} fps`,
       details: 'Standard frame rate. Smooth playback on all platforms.',
       fix: undefined,
+      ...measured,
     };
   } else if (frameRate >= 59 && frameRate <= 61) {
     return {
       label: 'Frame Rate',
       status: 'PASS',
-      value: '60 fps',
+      value: `${frameRate} fps`,
       details: 'High frame rate. Extra smooth motion, great for fast-paced content.',
       fix: undefined,
+      ...measured,
     };
   } else if (frameRate >= 23 && frameRate <= 25) {
     return {
@@ -287,6 +695,7 @@ const analyzeFrameRate = (frameRate: number): TechnicalCheck => {
       value: `${frameRate} fps`,
       details: 'Cinema-style frame rate. Acceptable for most content.',
       fix: undefined,
+      ...measured,
     };
   } else if (frameRate < 23) {
     return {
@@ -295,6 +704,7 @@ const analyzeFrameRate = (frameRate: number): TechnicalCheck => {
       value: `${frameRate} fps`,
       details: 'Low frame rate. Video will look choppy and unprofessional.',
       fix: 'Re-export at minimum 24fps, ideally 30fps for social media.',
+      ...measured,
     };
   } else {
     return {
@@ -303,23 +713,26 @@ const analyzeFrameRate = (frameRate: number): TechnicalCheck => {
       value: `${frameRate} fps`,
       details: 'Non-standard but acceptable frame rate.',
       fix: undefined,
+      ...measured,
     };
   }
 };
 
 /**
- * Check for audio presence
+ * Check for audio presence and silence
  */
-const analyzeAudio = (hasAudio: boolean, duration: number): TechnicalCheck => {
-  if (hasAudio) {
+const analyzeAudio = (audio: AudioMeasurement, duration: number): TechnicalCheck => {
+  const { hasTrack, silence } = audio;
+
+  if (hasTrack === null) {
     return {
       label: 'Audio Track',
-      status: 'PASS',
-      value: 'Detected',
-      details: 'Audio track present. Make sure it includes voiceover, music, or sound effects to engage viewers.',
-      fix: undefined,
+      status: 'WARN',
+      value: 'Unknown',
+      details: 'Could not verify the audio track in this file format. Make sure your ad actually has sound before you ship it.',
+      fix: 'Export as MP4 (H.264 video + AAC audio) so the audio can be checked automatically.',
     };
-  } else {
+  } else if (!hasTrack) {
     // For very short videos, no audio might be intentional
     if (duration <= 5) {
       return {
@@ -337,63 +750,882 @@ const analyzeAudio = (hasAudio: boolean, duration: number): TechnicalCheck => {
       details: 'No audio detected. Silent videos get crushed by the algorithm. Sound is critical for engagement on TikTok and Reels.',
       fix: 'Add audio: trending music, voiceover, or sound effects. Even simple background music dramatically improves watch time.',
     };
+  } else if (silence?.silent) {
+    return {
+      label: 'Audio Track',
+      status: 'FAIL',
+      value: 'Silent',
+      details: 'Your video has an audio track, but it\'s completely silent. Usually a muted export or a missing audio layer. Silent videos get crushed by the algorithm.',
+      fix: 'Check that your audio tracks are enabled and unmuted in your editor, then re-export. Add music or a voiceover if there is none.',
+      measured: 0,
+      method: 'decode',
+    };
+  } else if (silence && silence.openingSilence >= 1) {
+    const openingSilence = Math.round(silence.openingSilence * 10) / 10;
+    return {
+      label: 'Audio Track',
+      status: 'WARN',
+      value: `Silent start (${openingSilence}s)`,
+      details: `${openingSilence}s of silence in the first ${OPENING_SECONDS} seconds. Sound-on viewers decide to stay or scroll in that window, and you're giving them nothing to hear.`,
+      fix: 'Start the audio at 0:00. Open with a sound effect, the first word of the voiceover, or the music drop - not dead air.',
+      measured: openingSilence,
+      method: 'decode',
+    };
+  } else {
+    return {
+      label: 'Audio Track',
+      status: 'PASS',
+      value: 'Detected',
+      details: silence
+        ? 'Audio track present with sound from the start. Make sure it includes voiceover, music, or sound effects to engage viewers.'
+        : 'Audio track present. Make sure it includes voiceover, music, or sound effects to engage viewers.',
+      fix: undefined,
+      method: silence ? 'decode' : undefined,
+    };
   }
 };
 
+const describeCodec = (track: ContainerTrack): string => {
+  const name = track.codec ? CODEC_NAMES[track.codec] : 'Unknown';
+  if (track.codec === 'other' && track.codecTag) return track.codecTag.trim();
+  if (track.codec === 'aac' && track.profile) return track.profile;
+  return track.profile ? `${name} ${track.profile}` : name;
+};
+
 /**
- * Run full technical analysis on a video file
+ * Check the video codec platforms will have to transcode from
  */
-export const runTechnicalAnalysis = async (file: File): Promise<TechnicalAnalysis> => {
-  const metadata = await extractVideoMetadata(file);
-  
+const analyzeVideoCodec = (track: ContainerTrack, profile: PlatformProfile): TechnicalCheck => {
+  const value = describeCodec(track);
+  const method = 'container';
+
+  switch (track.codec) {
+    case 'h264':
+      if (track.profile && /10|4:2:2|4:4:4/.test(track.profile)) {
+        return {
+          label: 'Video Codec',
+          status: 'WARN',
+          value,
+          details: `H.264 ${track.profile} is a mastering format. Most phones can't decode it in hardware and ${profile.label} will re-encode it with unpredictable results.`,
+          fix: 'Export as H.264 High profile, 8-bit 4:2:0. That\'s the default "H.264" preset in every editor.',
+          method,
+        };
+      }
+      return {
+        label: 'Video Codec',
+        status: 'PASS',
+        value,
+        details: `H.264 is the safest codec for ${profile.label}. Every device plays it and the platform transcodes it cleanly.`,
+        fix: undefined,
+        method,
+      };
+    case 'hevc':
+      return {
+        label: 'Video Codec',
+        status: 'WARN',
+        value,
+        details: `HEVC (H.265), the iPhone default. ${profile.label} transcodes it to H.264 anyway, and HEVC sources often come out softer or with shifted colors. Some ad managers reject it outright.`,
+        fix: 'Export as H.264 MP4. On iPhone, set Settings > Camera > Formats to "Most Compatible", or pick H.264 when exporting from your editor.',
+        method,
+      };
+    case 'prores':
+      return {
+        label: 'Video Codec',
+        status: 'WARN',
+        value,
+        details: 'ProRes is an editing format, not a delivery format. The file is huge and many ad platforms won\'t accept it.',
+        fix: 'Export a delivery copy as H.264 MP4 at 8-12 Mbps for 1080p.',
+        method,
+      };
+    case 'vp9':
+    case 'vp8':
+    case 'av1':
+      return {
+        label: 'Video Codec',
+        status: 'WARN',
+        value,
+        details: `${CODEC_NAMES[track.codec]} plays in browsers, but not every ad platform accepts it as an upload and some re-encode it poorly.`,
+        fix: 'Convert to H.264 MP4 before uploading. HandBrake\'s "Fast 1080p30" preset does this in one click.',
+        method,
+      };
+    default:
+      return {
+        label: 'Video Codec',
+        status: 'WARN',
+        value,
+        details: `Unrecognized video codec. ${profile.label} may reject the upload or fail to play it.`,
+        fix: 'Export as H.264 MP4 (AAC audio), the format every platform accepts.',
+        method,
+      };
+  }
+};
+
+/**
+ * Check video bitrate against what platforms recommend for the resolution.
+ * Starved uploads get compressed twice and fall apart on re-encode.
+ */
+const analyzeBitrate = (
+  bitrate: number,
+  width: number,
+  height: number,
+  frameRate: number
+): TechnicalCheck => {
+  const shortSide = Math.min(width, height);
+  const base = RECOMMENDED_BITRATES.find(r => shortSide >= r.minShortSide)!.mbps;
+  const recommended = frameRate > 45 ? base * 1.5 : base;
+  const mbps = Math.round((bitrate / 1e6) * 10) / 10;
+  const measured = { measured: mbps, method: 'container' };
+  const value = `${mbps} Mbps`;
+
+  if (mbps < recommended * 0.4) {
+    return {
+      label: 'Bitrate',
+      status: 'FAIL',
+      value,
+      details: `Way under the ~${recommended} Mbps this resolution needs. The video is already heavily compressed, and the platform's own re-encode will turn it into blocky mush.`,
+      fix: `Re-export from the original project at ${recommended}-${Math.round(recommended * 1.5)} Mbps. Don't upload a file that's been through WhatsApp or another app first.`,
+      ...measured,
+    };
+  } else if (mbps < recommended * 0.75) {
+    return {
+      label: 'Bitrate',
+      status: 'WARN',
+      value,
+      details: `Below the ~${recommended} Mbps recommended for ${shortSide}p. Expect visible compression artifacts in fast motion and gradients after the platform re-encodes it.`,
+      fix: `Raise the export bitrate to around ${recommended} Mbps.`,
+      ...measured,
+    };
+  } else if (mbps > recommended * 6) {
+    return {
+      label: 'Bitrate',
+      status: 'WARN',
+      value,
+      details: `Far above the ~${recommended} Mbps platforms use. The extra data gets thrown away on re-encode, it just makes the upload slow.`,
+      fix: `Export a delivery copy at ${recommended}-${Math.round(recommended * 1.5)} Mbps. It will look identical in the feed.`,
+      ...measured,
+    };
+  } else {
+    return {
+      label: 'Bitrate',
+      status: 'PASS',
+      value,
+      details: `Healthy bitrate for ${shortSide}p. Enough detail to survive the platform's re-encode.`,
+      fix: undefined,
+      ...measured,
+    };
+  }
+};
+
+/**
+ * Check color space and HDR. Feeds tone-map HDR down to SDR, and phone
+ * HDR exports usually come out washed out or blown out.
+ */
+const analyzeColorSpace = (track: ContainerTrack): TechnicalCheck | undefined => {
+  const { color, dolbyVision } = track;
+  if (!color && !dolbyVision) return undefined;
+
+  const primaries = color ? COLOR_PRIMARIES[color.primaries] : undefined;
+  const transfer = color?.transfer === TRANSFER_PQ ? 'PQ' : color?.transfer === TRANSFER_HLG ? 'HLG' : undefined;
+
+  if (dolbyVision || transfer) {
+    const format = dolbyVision ? 'Dolby Vision' : transfer === 'PQ' ? 'HDR10' : 'HLG';
+    return {
+      label: 'Color Space',
+      status: 'WARN',
+      value: `HDR (${format})`,
+      details: `This is an HDR export${dolbyVision ? ' (typical of iPhone footage)' : ''}. Feeds convert HDR to SDR on upload and the result usually looks washed out or blown out, with colors that don't match what you approved.`,
+      fix: 'Export in SDR (Rec. 709). On iPhone turn off Settings > Camera > Record Video > HDR Video, or convert to SDR in your editor before exporting.',
+      method: 'container',
+    };
+  } else if (color && (color.primaries === 9 || color.primaries === 11 || color.primaries === 12)) {
+    return {
+      label: 'Color Space',
+      status: 'WARN',
+      value: `Wide gamut (${primaries})`,
+      details: `Tagged as ${primaries}. Platforms convert to Rec. 709, so saturated colors (brand reds, greens) can shift or clip.`,
+      fix: 'Export with Rec. 709 color so what you see in the editor is what ends up in the feed.',
+      method: 'container',
+    };
+  } else {
+    return {
+      label: 'Color Space',
+      status: 'PASS',
+      value: `SDR${primaries ? ` (${primaries})` : ''}`,
+      details: 'Standard dynamic range. Colors will look the same in the feed as in your editor.',
+      fix: undefined,
+      method: 'container',
+    };
+  }
+};
+
+/**
+ * Check for rotation metadata. Players honor it, but some ad tools and
+ * transcoders ignore it and publish the video sideways.
+ */
+const analyzeRotation = (track: ContainerTrack): TechnicalCheck => {
+  if (track.rotation === 0) {
+    return {
+      label: 'Rotation',
+      status: 'PASS',
+      value: 'None',
+      details: 'Pixels are stored upright. The video will display the same way everywhere.',
+      fix: undefined,
+      measured: 0,
+      method: 'container',
+    };
+  }
+
   return {
-    resolution: analyzeResolution(metadata.width, metadata.height),
-    aspectRatio: analyzeAspectRatio(metadata.width, metadata.height),
-    duration: analyzeDuration(metadata.duration),
-    fileSize: analyzeFileSize(metadata.fileSize),
-    frameRate: analyzeFrameRate(metadata.frameRate),
-    hasAudio: analyzeAudio(metadata.hasAudio, metadata.duration),
+    label: 'Rotation',
+    status: 'WARN',
+    value: `${track.rotation}° flag`,
+    details: `The video is stored ${track.rotation === 180 ? 'upside down' : 'sideways'} with a flag telling players to rotate it ${track.rotation}°. Most players respect it, but some ad managers and transcoders don't - your ad can go live ${track.rotation === 180 ? 'upside down' : 'sideways'}.`,
+    fix: 'Re-export through your editor (or HandBrake) so the rotation is baked into the pixels instead of stored as metadata.',
+    measured: track.rotation,
+    method: 'container',
   };
 };
 
 /**
- * Calculate a technical score based on all checks
+ * Check the audio codec and sample rate
  */
-export const calculateTechnicalScore = (analysis: TechnicalAnalysis): number => {
-  const checks = [
-    analysis.resolution,
-    analysis.aspectRatio,
-    analysis.duration,
-    analysis.fileSize,
-    analysis.frameRate,
-    analysis.hasAudio,
+const analyzeAudioCodec = (track: ContainerTrack, profile: PlatformProfile): TechnicalCheck => {
+  const sampleRate = track.sampleRate ? `${Math.round(track.sampleRate / 100) / 10} kHz` : null;
+  const value = [describeCodec(track), sampleRate].filter(Boolean).join(' · ');
+  const measured = { measured: track.sampleRate || undefined, method: 'container' };
+
+  if (track.codec === 'ac3' || track.codec === 'eac3' || track.codec === 'other') {
+    return {
+      label: 'Audio Codec',
+      status: 'FAIL',
+      value,
+      details: `${describeCodec(track)} audio isn't supported by most phones or by ${profile.label}. Your ad may upload with no sound at all.`,
+      fix: 'Export audio as AAC, 48 kHz, 128-320 kbps.',
+      ...measured,
+    };
+  } else if (track.codec === 'pcm' || track.codec === 'alac') {
+    return {
+      label: 'Audio Codec',
+      status: 'WARN',
+      value,
+      details: 'Uncompressed/lossless audio. It bloats the file and some platforms reject it inside MP4.',
+      fix: 'Export audio as AAC, 48 kHz, 256 kbps. Nobody can hear the difference on a phone.',
+      ...measured,
+    };
+  } else if (track.sampleRate && track.sampleRate < 44100) {
+    return {
+      label: 'Audio Codec',
+      status: 'WARN',
+      value,
+      details: `${sampleRate} sample rate. Music and voice lose their top end and sound dull or muffled.`,
+      fix: 'Export audio at 48 kHz (or 44.1 kHz). If the source was recorded lower, re-record or use the original file.',
+      ...measured,
+    };
+  } else if (track.codec !== 'aac') {
+    return {
+      label: 'Audio Codec',
+      status: 'WARN',
+      value,
+      details: `${describeCodec(track)} works in browsers, but AAC is what every platform expects. Some will re-encode or reject other codecs.`,
+      fix: 'Export audio as AAC, 48 kHz, 128-320 kbps in an MP4.',
+      ...measured,
+    };
+  } else {
+    return {
+      label: 'Audio Codec',
+      status: 'PASS',
+      value,
+      details: 'AAC audio at a standard sample rate. Plays everywhere.',
+      fix: undefined,
+      ...measured,
+    };
+  }
+};
+
+/**
+ * Sample frames on the main thread and stream them to the worker, which
+ * runs every visual detector over them. Frame sampling is best-effort:
+ * if the browser can't seek the file, the rest of the technical analysis
+ * still runs.
+ */
+const scanFrames = async (
+  file: File,
+  worker: AnalysisWorker,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<FrameScan> => {
+  try {
+    const duration = await sampleFrames(file, FRAME_SAMPLING, (frame, fraction) => {
+      const transfer = [frame.image.data.buffer, ...(frame.detail ? [frame.detail.data.buffer] : [])];
+      worker.post({ type: 'frame', frame }, transfer);
+      onProgress(fraction);
+    }, signal);
+    return await worker.request({ type: 'finishFrames', duration });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw error;
+    console.warn('⚠️ Frame analysis skipped:', error);
+    return {};
+  }
+};
+
+/**
+ * m:ss for findings and the result page
+ */
+export const formatTimestamp = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Check for text and graphics hidden behind TikTok/Reels/Shorts UI.
+ * Only applies to vertical video.
+ */
+const analyzeSafeZones = (
+  scan: SafeZoneScan,
+  width: number,
+  height: number,
+  profile: PlatformProfile
+): TechnicalCheck | undefined => {
+  if (width / height > MAX_SAFE_ZONE_RATIO || scan.frameCount === 0 || profile.safeZones.length === 0) {
+    return undefined;
+  }
+  const platformNames = profile.safeZones.map(p => SAFE_ZONES[p].label).join(', ');
+  const violations = scan.violations
+    .map(v => ({ ...v, hits: v.hits.filter(h => profile.safeZones.includes(h.platform)) }))
+    .filter(v => v.hits.length > 0);
+
+  if (violations.length === 0) {
+    return {
+      label: 'Safe Zones',
+      status: 'PASS',
+      value: 'Clear',
+      details: `No text or graphics under the ${platformNames} buttons and captions. Everything important stays visible.`,
+      fix: undefined,
+      method: 'frames',
+      timestamps: [],
+    };
+  }
+
+  // Collapse consecutive sampled frames into one timestamp per violation
+  const timestamps: number[] = [];
+  let lastTime = -Infinity;
+  for (const { time } of violations) {
+    if (time - lastTime > VIOLATION_GAP_SECONDS) timestamps.push(Math.round(time * 10) / 10);
+    lastTime = time;
+  }
+
+  const platforms = [...new Set(violations.flatMap(v => v.hits.map(h => h.platform)))];
+  const areas = [...new Set(violations.flatMap(v => v.hits.map(h => `${SAFE_ZONES[h.platform].label} ${h.region.toLowerCase()}`)))];
+  const share = violations.length / scan.frameCount;
+  const shownTimes = timestamps.slice(0, 5).map(formatTimestamp).join(', ');
+
+  return {
+    label: 'Safe Zones',
+    status: share >= 0.25 ? 'FAIL' : 'WARN',
+    value: `Blocked on ${platforms.map(p => SAFE_ZONES[p].label).join(', ')}`,
+    details: `Text or graphics sit under the app UI (${areas.slice(0, 4).join(', ')}) at ${shownTimes}${timestamps.length > 5 ? ' and more' : ''}. Viewers won't see what's covered by buttons and captions.`,
+    fix: 'Keep text, logos and key product shots in the middle of the frame: away from the top ~10%, the bottom ~25% and the right-hand ~15% where the buttons sit.',
+    measured: Math.round(share * 100),
+    method: 'frames',
+    timestamps,
+  };
+};
+
+/**
+ * Keep the frame with the most hidden content so the result page can
+ * show it with the safe-zone overlay drawn on top
+ */
+const createSafeZoneSnapshot = (scan: SafeZoneScan, profile: PlatformProfile): SafeZoneSnapshot | undefined => {
+  const worst = profile.safeZones
+    .map(platform => scan.worstFrames[platform])
+    .reduce((a, b) => (b && (!a || b.overlap > a.overlap) ? b : a), undefined);
+  if (!worst) return undefined;
+
+  const violation = scan.violations.find(v => v.time === worst.frame.time);
+  const platforms = [...new Set(violation?.hits.map(h => h.platform) || [])]
+    .filter((p): p is SafeZonePlatform => profile.safeZones.includes(p));
+
+  return { time: worst.frame.time, image: frameToDataUrl(worst.frame.image), platforms };
+};
+
+/**
+ * Check for black frames at the very start and end
+ */
+const analyzeBlackFrames = ({ leading, trailing, trailingStart }: BlackFrameScan): TechnicalCheck => {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const timestamps = [
+    ...(leading > 0 ? [0] : []),
+    ...(trailing > 0 ? [round(trailingStart)] : []),
   ];
-  
-  let score = 100;
-  
-  for (const check of checks) {
-    if (check.status === 'FAIL') {
-      score -= 20;
-    } else if (check.status === 'WARN') {
-      score -= 10;
+  const endNote = trailing >= 1 ? ` It also ends on ${round(trailing)}s of black.` : '';
+
+  if (leading >= 1) {
+    return {
+      label: 'Black Frames',
+      status: 'FAIL',
+      value: `Black start (${round(leading)}s)`,
+      details: `The first ${round(leading)}s are black. That's the moment viewers decide to stay or scroll, and the black frame is also what shows as the preview in the feed.${endNote}`,
+      fix: 'Trim the black frames from the start so the video opens on your hook at 0:00. Remove any fade-in from black.',
+      measured: round(leading),
+      method: 'frames',
+      timestamps,
+    };
+  } else if (leading > 0) {
+    return {
+      label: 'Black Frames',
+      status: 'WARN',
+      value: 'Starts on black',
+      details: `The video opens on a black frame. Short, but it's dead time in the most valuable split-second of the ad and can become the feed preview.${endNote}`,
+      fix: 'Trim the opening black frame or fade-in so the first frame is already your hook.',
+      measured: round(leading),
+      method: 'frames',
+      timestamps,
+    };
+  } else if (trailing >= 1) {
+    return {
+      label: 'Black Frames',
+      status: 'WARN',
+      value: `Black end (${round(trailing)}s)`,
+      details: `The last ${round(trailing)}s are black. Viewers scroll away before the loop restarts, which drags down completion rate.`,
+      fix: `Cut the video at ${formatTimestamp(trailingStart)}, right after your last shot, so it loops straight back to the hook.`,
+      measured: round(trailing),
+      method: 'frames',
+      timestamps,
+    };
+  } else {
+    return {
+      label: 'Black Frames',
+      status: 'PASS',
+      value: 'None',
+      details: 'Opens and ends on picture, no dead black frames.',
+      fix: undefined,
+      measured: 0,
+      method: 'frames',
+      timestamps: [],
+    };
+  }
+};
+
+/**
+ * Check for frozen stretches mid-video. Only ever a warning: price cards,
+ * text slides and other deliberate holds look exactly the same.
+ */
+const analyzeFrozenFrames = ({ freezes }: FrozenFrameScan): TechnicalCheck => {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const total = round(freezes.reduce((sum, f) => sum + f.end - f.start, 0));
+  const longest = Math.max(0, ...freezes.map(f => f.end - f.start));
+  const timestamps = freezes.map(f => round(f.start));
+  const ranges = freezes.slice(0, 4).map(f => `${formatTimestamp(f.start)}-${formatTimestamp(f.end)}`).join(', ');
+
+  if (freezes.length === 0) {
+    return {
+      label: 'Frozen Frames',
+      status: 'PASS',
+      value: 'None',
+      details: 'No frozen stretches. The picture keeps moving.',
+      fix: undefined,
+      measured: 0,
+      method: 'frames',
+      timestamps: [],
+    };
+  }
+
+  return {
+    label: 'Frozen Frames',
+    status: 'WARN',
+    value: `${freezes.length} hold${freezes.length > 1 ? 's' : ''} (${total}s)`,
+    details: `The picture doesn't change at all at ${ranges}${freezes.length > 4 ? ' and more' : ''}${longest >= 2 ? ` (longest ${round(longest)}s)` : ''}. Fine if it's a deliberate price card or text slide, but a stalled export or missing clip looks the same - and reads like the video has crashed.`,
+    fix: 'Check those timestamps in your timeline. Replace missing media or re-render the section. If it\'s an intentional still, add subtle motion (a slow zoom) so it doesn\'t read as frozen.',
+    measured: total,
+    method: 'frames',
+    timestamps,
+  };
+};
+
+/**
+ * Check focus from the Laplacian variance of the sampled frames
+ */
+const analyzeFocus = ({ frameCount, blurryCount, blurry }: BlurScan): TechnicalCheck | undefined => {
+  if (frameCount === 0) return undefined;
+
+  const share = blurryCount / frameCount;
+  const timestamps = blurry.map(b => Math.round(b.start * 10) / 10);
+  const ranges = blurry.slice(0, 4).map(b => `${formatTimestamp(b.start)}-${formatTimestamp(b.end)}`).join(', ');
+  const measured = { measured: Math.round(share * 100), method: 'laplacian' };
+
+  if (share >= 0.5) {
+    return {
+      label: 'Focus',
+      status: 'FAIL',
+      value: 'Soft throughout',
+      details: `${Math.round(share * 100)}% of the video is out of focus or soft. Blurry footage looks cheap next to crisp content in the feed and gets worse after the platform compresses it.`,
+      fix: 'Reshoot with focus locked on your subject (tap-and-hold to lock on a phone), clean the lens, and use more light. If the source is sharp, check your export isn\'t upscaling a low-res file.',
+      ...measured,
+      timestamps,
+    };
+  } else if (blurry.length > 0) {
+    return {
+      label: 'Focus',
+      status: 'WARN',
+      value: `Soft at ${blurry.length} spot${blurry.length > 1 ? 's' : ''}`,
+      details: `Out-of-focus footage at ${ranges}${blurry.length > 4 ? ' and more' : ''}. Viewers notice soft shots immediately on a phone screen.`,
+      fix: 'Swap those shots for sharper takes, or cut them shorter. When filming, lock focus on the subject before you hit record.',
+      ...measured,
+      timestamps,
+    };
+  } else {
+    return {
+      label: 'Focus',
+      status: 'PASS',
+      value: 'Sharp',
+      details: 'Footage is in focus throughout.',
+      fix: undefined,
+      ...measured,
+      timestamps: [],
+    };
+  }
+};
+
+/**
+ * Check integrated loudness against platform delivery targets
+ */
+const analyzeLoudness = ({ integrated, range }: LoudnessReport, profile: PlatformProfile): TechnicalCheck => {
+  const target = profile.loudness;
+  const lufs = Math.round(integrated * 10) / 10;
+  const lra = Math.round(range * 10) / 10;
+  const offset = integrated - target.integrated;
+  const measured = { measured: lufs, method: 'bs1770' };
+  const rangeNote = range > MAX_LOUDNESS_RANGE
+    ? ` Loudness range is ${lra} LU - quiet parts will get lost on phone speakers.`
+    : '';
+
+  if (offset < -6) {
+    return {
+      label: 'Loudness',
+      status: 'FAIL',
+      value: `${lufs} LUFS`,
+      details: `Way too quiet. ${profile.label} targets around ${target.integrated} LUFS, so your ad will sound weak next to every other video in the feed.${rangeNote}`,
+      fix: `Normalize your master to ${target.integrated} LUFS integrated. Most editors have a loudness normalization option in the export or audio settings.`,
+      ...measured,
+    };
+  } else if (offset < -target.tolerance) {
+    return {
+      label: 'Loudness',
+      status: 'WARN',
+      value: `${lufs} LUFS`,
+      details: `A bit quiet. ${profile.label} targets around ${target.integrated} LUFS, so your ad will sound softer than the videos around it.${rangeNote}`,
+      fix: `Raise your master level to about ${target.integrated} LUFS integrated, keeping true peak under ${target.truePeak} dBTP.`,
+      ...measured,
+    };
+  } else if (offset > target.tolerance) {
+    return {
+      label: 'Loudness',
+      status: 'WARN',
+      value: `${lufs} LUFS`,
+      details: `Too loud. ${profile.label} will turn this down to around ${target.integrated} LUFS, so all that extra volume just costs you dynamics and punch.${rangeNote}`,
+      fix: `Bring your master down to about ${target.integrated} LUFS integrated and ease off the limiter.`,
+      ...measured,
+    };
+  } else if (rangeNote) {
+    return {
+      label: 'Loudness',
+      status: 'WARN',
+      value: `${lufs} LUFS`,
+      details: `Overall level is on target.${rangeNote}`,
+      fix: 'Compress the voiceover and duck the music under it so the level stays consistent from start to finish.',
+      ...measured,
+    };
+  } else {
+    return {
+      label: 'Loudness',
+      status: 'PASS',
+      value: `${lufs} LUFS`,
+      details: `Right on the ${profile.label} target of ${target.integrated} LUFS with a consistent level (${lra} LU range). It will sound as loud as everything around it.`,
+      fix: undefined,
+      ...measured,
+    };
+  }
+};
+
+/**
+ * Check true peak for clipping and codec overshoot
+ */
+const analyzeClipping = ({ truePeak }: LoudnessReport, profile: PlatformProfile): TechnicalCheck => {
+  const target = profile.loudness;
+  const dbtp = Math.round(truePeak * 10) / 10;
+  const measured = { measured: dbtp, method: 'bs1770' };
+
+  if (truePeak > 0) {
+    return {
+      label: 'Clipping',
+      status: 'FAIL',
+      value: `${dbtp} dBTP`,
+      details: 'Your audio clips. Peaks go over 0 dB, which sounds like crackling and distortion - worse after the platform re-encodes it.',
+      fix: `Lower the master volume or add a true-peak limiter set to ${target.truePeak} dBTP, then re-export.`,
+      ...measured,
+    };
+  } else if (truePeak > target.truePeak) {
+    return {
+      label: 'Clipping',
+      status: 'WARN',
+      value: `${dbtp} dBTP`,
+      details: `Peaks are above the ${target.truePeak} dBTP delivery limit. No clipping yet, but platform re-encoding can push these over and add distortion.`,
+      fix: `Add a true-peak limiter set to ${target.truePeak} dBTP on your master.`,
+      ...measured,
+    };
+  } else {
+    return {
+      label: 'Clipping',
+      status: 'PASS',
+      value: `${dbtp} dBTP`,
+      details: 'No clipping. Peaks have enough headroom to survive platform re-encoding cleanly.',
+      fix: undefined,
+      ...measured,
+    };
+  }
+};
+
+/**
+ * Measure everything the checks need: container, audio and frame scans.
+ * The heavy lifting happens in a worker; aborting the signal stops the
+ * run and rejects with an AbortError.
+ */
+export const measureVideo = async (
+  file: File,
+  { signal, onProgress }: MeasureOptions = {}
+): Promise<VideoMeasurements> => {
+  signal?.throwIfAborted();
+  const worker = createAnalysisWorker(signal);
+  const report = (progress: number, message: string) => {
+    signal?.throwIfAborted();
+    onProgress?.(Math.round(progress), message);
+  };
+
+  try {
+    const metadata = await extractVideoMetadata(file, worker, report, signal);
+    report(30, 'Scanning frames...');
+    const frames = await scanFrames(file, worker, (fraction) => report(30 + fraction * 70, 'Scanning frames...'), signal);
+    report(100, 'Specs ready');
+    return { metadata, frames };
+  } finally {
+    worker.terminate();
+  }
+};
+
+/**
+ * Video share of the container's overall bitrate. That figure includes the
+ * audio, so it's only usable when the audio bitrate is known or there is none.
+ */
+const containerVideoBitrate = (container: ContainerInfo | null): number | null => {
+  if (!container?.bitrate) return null;
+  const audioTracks = container.tracks.filter(t => t.type === 'audio');
+  if (audioTracks.some(t => !t.bitrate)) return null;
+  const audioBitrate = audioTracks.reduce((sum, t) => sum + (t.bitrate || 0), 0);
+  return container.bitrate > audioBitrate ? container.bitrate - audioBitrate : null;
+};
+
+/**
+ * Evaluate measurements against a platform profile
+ */
+export const evaluateTechnicalAnalysis = (
+  { metadata, frames }: VideoMeasurements,
+  profile: PlatformProfile
+): TechnicalAnalysis => {
+  const safeZones = frames.safeZones && analyzeSafeZones(frames.safeZones, metadata.width, metadata.height, profile);
+  const videoTrack = metadata.container?.tracks.find(t => t.type === 'video' && t.codec);
+  const audioTrack = metadata.container?.tracks.find(t => t.type === 'audio' && t.codec);
+  const videoBitrate = videoTrack?.bitrate || containerVideoBitrate(metadata.container);
+
+  return {
+    resolution: analyzeResolution(metadata.width, metadata.height, profile),
+    aspectRatio: analyzeAspectRatio(metadata.width, metadata.height, profile, frames.borders),
+    duration: analyzeDuration(metadata.duration, profile),
+    fileSize: analyzeFileSize(metadata.fileSize, profile),
+    frameRate: analyzeFrameRate(metadata.frameRate),
+    hasAudio: analyzeAudio(metadata.audio, metadata.duration),
+    ...(videoTrack && {
+      videoCodec: analyzeVideoCodec(videoTrack, profile),
+      colorSpace: analyzeColorSpace(videoTrack),
+      rotation: analyzeRotation(videoTrack),
+    }),
+    ...(videoBitrate && {
+      bitrate: analyzeBitrate(videoBitrate, metadata.width, metadata.height, metadata.frameRate.average),
+    }),
+    ...(audioTrack && { audioCodec: analyzeAudioCodec(audioTrack, profile) }),
+    ...(metadata.audio.loudness && Number.isFinite(metadata.audio.loudness.integrated) && {
+      loudness: analyzeLoudness(metadata.audio.loudness, profile),
+      clipping: analyzeClipping(metadata.audio.loudness, profile),
+    }),
+    safeZones,
+    blackFrames: frames.blackFrames && analyzeBlackFrames(frames.blackFrames),
+    frozenFrames: frames.frozenFrames && analyzeFrozenFrames(frames.frozenFrames),
+    focus: frames.blur && analyzeFocus(frames.blur),
+    pacing: frames.pacing,
+    safeZoneFrame: frames.safeZones && safeZones && safeZones.status !== 'PASS'
+      ? createSafeZoneSnapshot(frames.safeZones, profile)
+      : undefined,
+  };
+};
+
+/**
+ * Run full technical analysis on a video file against a platform profile
+ */
+export const runTechnicalAnalysis = async (
+  file: File,
+  profile: PlatformProfile = PLATFORM_PROFILES[DEFAULT_PROFILE_ID],
+  options: MeasureOptions = {}
+): Promise<TechnicalAnalysis> => {
+  return evaluateTechnicalAnalysis(await measureVideo(file, options), profile);
+};
+
+// ==========================================
+// CHECKS & SCORING
+// ==========================================
+
+/**
+ * Every check key in display order, with the label its check uses
+ */
+export const TECHNICAL_CHECK_LABELS: Record<TechnicalCheckKey, string> = {
+  resolution: 'Resolution',
+  aspectRatio: 'Aspect Ratio',
+  duration: 'Duration',
+  fileSize: 'File Size',
+  frameRate: 'Frame Rate',
+  hasAudio: 'Audio Track',
+  videoCodec: 'Video Codec',
+  bitrate: 'Bitrate',
+  colorSpace: 'Color Space',
+  rotation: 'Rotation',
+  audioCodec: 'Audio Codec',
+  loudness: 'Loudness',
+  clipping: 'Clipping',
+  safeZones: 'Safe Zones',
+  blackFrames: 'Black Frames',
+  frozenFrames: 'Frozen Frames',
+  focus: 'Focus',
+};
+
+// Current scoring formula: 100 minus weighted penalties, then hard-fail caps
+export const SCORING_FORMULA = 'weighted-penalty-v1';
+
+/**
+ * Matches the original fixed scoring: -20 per FAIL, -10 per WARN
+ */
+export const DEFAULT_SCORING_CONFIG: TechnicalScoringConfig = {
+  penalties: { FAIL: 20, WARN: 10 },
+  weights: {},
+  hardFails: [],
+};
+
+/**
+ * Fill in anything missing from a saved config with the defaults
+ */
+export const normalizeScoringConfig = (config?: Partial<TechnicalScoringConfig> | null): TechnicalScoringConfig => ({
+  penalties: { ...DEFAULT_SCORING_CONFIG.penalties, ...config?.penalties },
+  weights: { ...config?.weights },
+  hardFails: (config?.hardFails || []).filter(rule => rule.check in TECHNICAL_CHECK_LABELS),
+});
+
+/**
+ * The workspace's score weighting (set on the Settings page). Custom
+ * weights are an Agency feature, so other plans score with the defaults.
+ */
+export const useScoringConfig = (user: User | null): TechnicalScoringConfig => {
+  const { plan } = useSubscription();
+  const [config, setConfig] = useState<TechnicalScoringConfig>(DEFAULT_SCORING_CONFIG);
+
+  useEffect(() => {
+    setConfig(DEFAULT_SCORING_CONFIG);
+    if (!supabase || !user || plan !== 'agency') return;
+    supabase
+      .from('profiles')
+      .select('technical_scoring')
+      .eq('id', user.id)
+      .single()
+      .then(({ data }) => setConfig(normalizeScoringConfig(data?.technical_scoring)));
+  }, [user, plan]);
+
+  return config;
+};
+
+/**
+ * Describe the formula in words, for showing next to a score
+ */
+export const describeScoringFormula = (config: TechnicalScoringConfig): string =>
+  `100 − Σ(weight × penalty), FAIL = ${config.penalties.FAIL} pts, WARN = ${config.penalties.WARN} pts` +
+  (config.hardFails.length > 0 ? ', capped by hard-fail rules' : '');
+
+/**
+ * List every check present on an analysis with its key. Codec checks are
+ * only there when the container could be parsed, audio-quality checks
+ * when the audio track could be decoded.
+ */
+export const getTechnicalCheckEntries = (analysis: TechnicalAnalysis): [TechnicalCheckKey, TechnicalCheck][] => {
+  return (Object.keys(TECHNICAL_CHECK_LABELS) as TechnicalCheckKey[])
+    .filter(key => !!analysis[key])
+    .map(key => [key, analysis[key] as TechnicalCheck]);
+};
+
+/**
+ * List every check present on an analysis
+ */
+export const getTechnicalChecks = (analysis: TechnicalAnalysis): TechnicalCheck[] => {
+  return getTechnicalCheckEntries(analysis).map(([, check]) => check);
+};
+
+/**
+ * Score an analysis with a workspace's weights and hard-fail rules, and
+ * keep the working so the score can be explained later
+ */
+export const scoreTechnicalAnalysis = (
+  analysis: TechnicalAnalysis,
+  config: TechnicalScoringConfig = DEFAULT_SCORING_CONFIG
+): TechnicalScoreBreakdown => {
+  const entries = getTechnicalCheckEntries(analysis);
+  const deductions: TechnicalScoreBreakdown['deductions'] = [];
+
+  for (const [key, check] of entries) {
+    if (check.status === 'PASS') continue;
+    const points = (config.weights[key] ?? 1) * config.penalties[check.status];
+    if (points > 0) {
+      deductions.push({ check: key, label: check.label, status: check.status, points: Math.round(points * 10) / 10 });
     }
   }
-  
-  return Math.max(0, score);
+
+  let score = Math.max(0, 100 - deductions.reduce((sum, d) => sum + d.points, 0));
+  let hardFail: TechnicalScoreBreakdown['hardFail'];
+
+  for (const rule of config.hardFails) {
+    const check = analysis[rule.check] as TechnicalCheck | undefined;
+    const triggered = check && (check.status === 'FAIL' || (rule.status === 'WARN' && check.status === 'WARN'));
+    if (triggered && rule.maxScore < score) {
+      score = rule.maxScore;
+      hardFail = { check: rule.check, label: check.label, maxScore: rule.maxScore };
+    }
+  }
+
+  return {
+    score: Math.round(score),
+    formula: SCORING_FORMULA,
+    config,
+    deductions,
+    hardFail,
+  };
+};
+
+/**
+ * Calculate a technical score based on all checks
+ */
+export const calculateTechnicalScore = (
+  analysis: TechnicalAnalysis,
+  config: TechnicalScoringConfig = DEFAULT_SCORING_CONFIG
+): number => {
+  return scoreTechnicalAnalysis(analysis, config).score;
 };
 
 /**
  * Get the number of issues by severity
  */
 export const countIssues = (analysis: TechnicalAnalysis): { fails: number; warns: number; passes: number } => {
-  const checks = [
-    analysis.resolution,
-    analysis.aspectRatio,
-    analysis.duration,
-    analysis.fileSize,
-    analysis.frameRate,
-    analysis.hasAudio,
-  ];
+  const checks = getTechnicalChecks(analysis);
   
   return {
     fails: checks.filter(c => c.status === 'FAIL').length,
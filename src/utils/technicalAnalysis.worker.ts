@@ -0,0 +1,110 @@
+// ==========================================
+// TECHNICAL ANALYSIS WORKER
+// Runs the CPU-heavy parsers and detectors off the main thread.
+// Seeking and audio decoding need the DOM, so the main thread does
+// those and streams the results in here.
+// ==========================================
+
+import { parseContainer, ContainerInfo } from './containerParser';
+import { analyzeSilence, measureLoudness, DecodedAudio, SilenceReport, LoudnessReport } from './audioAnalysis';
+import {
+  createPacingDetector,
+  createBorderDetector,
+  createSafeZoneDetector,
+  createBlackFrameDetector,
+  createFrozenFrameDetector,
+  createBlurDetector,
+  FrameDetector,
+  SampledFrame,
+  FrameBorders,
+  SafeZoneScan,
+  BlackFrameScan,
+  FrozenFrameScan,
+  BlurScan,
+} from './frameAnalysis';
+import { PacingAnalysis } from '../types';
+import { SAFE_ZONES } from './platforms';
+
+// ==========================================
+// MESSAGES
+// ==========================================
+export interface FrameScan {
+  pacing?: PacingAnalysis;
+  borders?: FrameBorders | null;
+  safeZones?: SafeZoneScan;
+  blackFrames?: BlackFrameScan;
+  frozenFrames?: FrozenFrameScan;
+  blur?: BlurScan;
+}
+
+export type AnalysisWorkerMessage =
+  | { type: 'container'; file: Blob }
+  | { type: 'audio'; audio: DecodedAudio }
+  | { type: 'frame'; frame: SampledFrame }
+  | { type: 'finishFrames'; duration: number };
+
+export type AnalysisWorkerRequest = AnalysisWorkerMessage & { id: number };
+
+export interface AnalysisWorkerResults {
+  container: ContainerInfo | null;
+  audio: { silence: SilenceReport; loudness: LoudnessReport | null };
+  frame: void;
+  finishFrames: FrameScan;
+}
+
+export type AnalysisWorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+// ==========================================
+// FRAME DETECTORS
+// ==========================================
+const detectors = {
+  pacing: createPacingDetector(),
+  borders: createBorderDetector(),
+  safeZones: createSafeZoneDetector(SAFE_ZONES),
+  blackFrames: createBlackFrameDetector(),
+  frozenFrames: createFrozenFrameDetector(),
+  blur: createBlurDetector(),
+};
+
+const finishFrames = (duration: number): FrameScan => {
+  const scan: Record<string, unknown> = {};
+  for (const [name, detector] of Object.entries(detectors) as [string, FrameDetector<unknown>][]) {
+    scan[name] = detector.finish(duration);
+  }
+  return scan as FrameScan;
+};
+
+// ==========================================
+// MESSAGE HANDLER
+// ==========================================
+const handle = async (request: AnalysisWorkerRequest): Promise<unknown> => {
+  switch (request.type) {
+    case 'container':
+      return parseContainer(request.file);
+    case 'audio': {
+      const silence = analyzeSilence(request.audio);
+      return { silence, loudness: silence.silent ? null : measureLoudness(request.audio) };
+    }
+    case 'frame':
+      for (const detector of Object.values(detectors) as FrameDetector<unknown>[]) {
+        detector.addFrame(request.frame);
+      }
+      return undefined;
+    case 'finishFrames':
+      return finishFrames(request.duration);
+  }
+};
+
+const respond = (response: AnalysisWorkerResponse) => self.postMessage(response);
+
+self.onmessage = async ({ data }: MessageEvent<AnalysisWorkerRequest>) => {
+  try {
+    const result = await handle(data);
+    // Frames are fire-and-forget; everything else gets an answer
+    if (data.type !== 'frame') respond({ id: data.id, result });
+  } catch (error: any) {
+    respond({ id: data.id, error: error?.message || String(error) });
+  }
+};
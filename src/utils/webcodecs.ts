@@ -0,0 +1,328 @@
+// ==========================================
+// WEBCODECS TRANSCODER
+// Demuxes MP4/MOV with mp4box, re-encodes the video through the
+// browser's own (usually hardware) H.264 encoder and copies AAC audio
+// straight through
+// ==========================================
+
+import { createFile, DataStream, Endianness, ES_Descriptor, MP4BoxBuffer, MultiBufferStream, Sample, Track, VisualSampleEntry } from 'mp4box';
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface TranscodeSource {
+  duration: number;
+  width: number;  // as displayed, after rotation
+  height: number;
+  audioKbps: number;
+}
+
+export interface TranscodeSettings {
+  height: number;     // displayed height of the output
+  videoKbps: number;
+  fps: number;
+}
+
+export interface TranscodeOptions {
+  /** Picks output size and bitrate once the source has been probed */
+  plan: (source: TranscodeSource) => TranscodeSettings;
+  onProgress: (fraction: number, message: string) => void;
+  signal?: AbortSignal;
+}
+
+interface DemuxedTrack {
+  track: Track;
+  samples: Sample[];
+  description?: Uint8Array;
+}
+
+const READ_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// How far the decoder/encoder may run ahead before we wait for them
+const MAX_QUEUE_SIZE = 8;
+
+// Tried in order - Main first for quality, Baseline for older hardware encoders
+const H264_CODECS = ['avc1.4d401f', 'avc1.42e01f'];
+
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+// ==========================================
+// SUPPORT
+// ==========================================
+export const isWebCodecsSupported = (): boolean =>
+  typeof VideoDecoder !== 'undefined' &&
+  typeof VideoEncoder !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined';
+
+// ==========================================
+// DEMUX
+// ==========================================
+
+type StsdEntry = Partial<Pick<VisualSampleEntry, 'avcC' | 'hvcC' | 'vpcC' | 'av1C'>> & {
+  esds?: { esd: ES_Descriptor };
+};
+
+/**
+ * Codec configuration box (avcC/hvcC/vpcC/av1C or the AAC
+ * AudioSpecificConfig) the decoder needs to make sense of the samples
+ */
+const getDescription = (mp4: ReturnType<typeof createFile>, track: Track): Uint8Array | undefined => {
+  // Video entries carry one of the codec boxes, AAC entries (mp4a) an esds box
+  const entry = mp4.getTrackById(track.id).mdia.minf.stbl.stsd.entries[0] as StsdEntry;
+
+  const box = entry.avcC || entry.hvcC || entry.vpcC || entry.av1C;
+  if (box) {
+    const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+    box.write(stream as MultiBufferStream); // writing only needs the plain DataStream side
+    return new Uint8Array(stream.buffer, 8); // skip the box header
+  }
+
+  // esds → DecoderConfigDescriptor (4) → DecoderSpecificInfo (5)
+  const specificInfo = entry.esds?.esd?.findDescriptor(4)?.findDescriptor(5);
+  return specificInfo?.data;
+};
+
+const demux = async (
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<{ duration: number; video: DemuxedTrack; audio: DemuxedTrack | null }> => {
+  const mp4 = createFile();
+  let error: Error | null = null;
+  let video: DemuxedTrack | null = null;
+  let audio: DemuxedTrack | null = null;
+  let duration = 0;
+
+  mp4.onError = (module, message) => {
+    error = new Error(`Could not read ${module}: ${message}`);
+  };
+
+  mp4.onReady = (info) => {
+    duration = info.duration / info.timescale;
+    const videoTrack = info.videoTracks[0];
+    const audioTrack = info.audioTracks[0];
+    if (videoTrack) {
+      video = { track: videoTrack, samples: [], description: getDescription(mp4, videoTrack) };
+      mp4.setExtractionOptions(videoTrack.id);
+    }
+    if (audioTrack) {
+      audio = { track: audioTrack, samples: [], description: getDescription(mp4, audioTrack) };
+      mp4.setExtractionOptions(audioTrack.id);
+    }
+    mp4.start();
+  };
+
+  mp4.onSamples = (id, _user, samples) => {
+    const target = id === video?.track.id ? video : audio;
+    for (const sample of samples) target?.samples.push(sample);
+  };
+
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    signal?.throwIfAborted();
+    const chunk = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+    mp4.appendBuffer(MP4BoxBuffer.fromArrayBuffer(chunk, offset));
+    onProgress(Math.min(1, (offset + READ_CHUNK_SIZE) / file.size));
+    if (error) throw error;
+  }
+  mp4.flush();
+
+  if (error) throw error;
+  if (!video) throw new Error('No video track found (WebCodecs path needs MP4/MOV)');
+  return { duration, video, audio };
+};
+
+// ==========================================
+// HELPERS
+// ==========================================
+const toMicroseconds = (value: number, timescale: number) => Math.round((value * 1e6) / timescale);
+
+const getRotation = (track: Track): 0 | 90 | 180 | 270 => {
+  const [a, b] = track.matrix;
+  const degrees = Math.round((Math.atan2(b, a) * 180) / Math.PI / 90) * 90;
+  return ((degrees + 360) % 360) as 0 | 90 | 180 | 270;
+};
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * First H.264 config the browser can encode, preferring hardware
+ */
+const findEncoderConfig = async (width: number, height: number, bitrate: number, fps: number): Promise<VideoEncoderConfig> => {
+  for (const codec of H264_CODECS) {
+    for (const hardwareAcceleration of ['prefer-hardware', 'no-preference'] as const) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width,
+        height,
+        bitrate,
+        framerate: fps,
+        hardwareAcceleration,
+        avc: { format: 'avc' },
+      };
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) return config;
+    }
+  }
+  throw new Error('No supported H.264 encoder');
+};
+
+/**
+ * Resolves once the decoder and encoder have worked through their backlog
+ */
+const waitForQueues = async (decoder: VideoDecoder, encoder: VideoEncoder) => {
+  while (decoder.decodeQueueSize > MAX_QUEUE_SIZE || encoder.encodeQueueSize > MAX_QUEUE_SIZE) {
+    await new Promise(r => setTimeout(r, 1));
+  }
+};
+
+// ==========================================
+// TRANSCODE
+// ==========================================
+export const transcodeWithWebCodecs = async (file: File, options: TranscodeOptions): Promise<Blob> => {
+  const { plan, onProgress, signal } = options;
+
+  onProgress(0, 'Reading video...');
+  const { duration, video, audio } = await demux(file, (fraction) => onProgress(fraction * 0.1, 'Reading video...'), signal);
+
+  // Audio is copied as-is, so it has to be something an MP4 can hold
+  if (audio && !audio.track.codec.startsWith('mp4a')) {
+    throw new Error(`Can't pass through ${audio.track.codec} audio`);
+  }
+
+  const rotation = getRotation(video.track);
+  const sideways = rotation === 90 || rotation === 270;
+  const sourceWidth = video.track.video?.width || video.track.track_width;
+  const sourceHeight = video.track.video?.height || video.track.track_height;
+
+  const settings = plan({
+    duration,
+    width: sideways ? sourceHeight : sourceWidth,
+    height: sideways ? sourceWidth : sourceHeight,
+    audioKbps: audio ? audio.track.bitrate / 1000 : 0,
+  });
+
+  // Scale the stored frame so the displayed height matches the plan
+  const scale = Math.min(1, settings.height / (sideways ? sourceWidth : sourceHeight));
+  const width = even(sourceWidth * scale);
+  const height = even(sourceHeight * scale);
+
+  const decoderConfig: VideoDecoderConfig = {
+    codec: video.track.codec,
+    codedWidth: sourceWidth,
+    codedHeight: sourceHeight,
+    description: video.description,
+  };
+  if (!(await VideoDecoder.isConfigSupported(decoderConfig)).supported) {
+    throw new Error(`Can't decode ${video.track.codec}`);
+  }
+  const encoderConfig = await findEncoderConfig(width, height, settings.videoKbps * 1000, settings.fps);
+
+  console.log(`⚡ WebCodecs: ${video.track.codec} ${sourceWidth}x${sourceHeight} → ${encoderConfig.codec} ${width}x${height} @ ${settings.videoKbps}kbps`);
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, rotation, frameRate: settings.fps },
+    audio: audio
+      ? {
+          codec: 'aac',
+          numberOfChannels: audio.track.audio?.channel_count || 2,
+          sampleRate: audio.track.audio?.sample_rate || 48000,
+        }
+      : undefined,
+    fastStart: 'in-memory',
+    firstTimestampBehavior: 'cross-track-offset',
+  });
+
+  let failure: Error | null = null;
+  const fail = (error: Error) => {
+    failure = failure || error;
+  };
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: fail,
+  });
+  encoder.configure(encoderConfig);
+
+  // Resize on an offscreen canvas and drop frames above the target rate
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const frameInterval = 1e6 / settings.fps;
+  const keyFrameEvery = settings.fps * KEYFRAME_INTERVAL_SECONDS;
+  let nextTimestamp = -Infinity;
+  let encodedFrames = 0;
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      if (frame.timestamp < nextTimestamp || failure) {
+        frame.close();
+        return;
+      }
+      nextTimestamp = Math.max(nextTimestamp, frame.timestamp) + frameInterval;
+
+      ctx.drawImage(frame, 0, 0, width, height);
+      const scaled = new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frameInterval });
+      frame.close();
+      encoder.encode(scaled, { keyFrame: encodedFrames % keyFrameEvery === 0 });
+      scaled.close();
+      encodedFrames++;
+    },
+    error: fail,
+  });
+  decoder.configure(decoderConfig);
+
+  try {
+    const { samples, track } = video;
+    for (let i = 0; i < samples.length; i++) {
+      signal?.throwIfAborted();
+      if (failure) throw failure;
+
+      const sample = samples[i];
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: toMicroseconds(sample.cts, track.timescale),
+        duration: toMicroseconds(sample.duration, track.timescale),
+        data: sample.data!,
+      }));
+
+      await waitForQueues(decoder, encoder);
+      if (i % 30 === 0) {
+        onProgress(0.1 + (i / samples.length) * 0.85, `Encoding... ${Math.floor((i / samples.length) * 100)}%`);
+      }
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (audio) {
+    const { samples, track, description } = audio;
+    samples.forEach((sample, i) => {
+      muxer.addAudioChunkRaw(
+        sample.data!,
+        'key',
+        toMicroseconds(sample.cts, track.timescale),
+        toMicroseconds(sample.duration, track.timescale),
+        i === 0
+          ? {
+              decoderConfig: {
+                codec: track.codec,
+                sampleRate: track.audio?.sample_rate || 48000,
+                numberOfChannels: track.audio?.channel_count || 2,
+                description,
+              },
+            }
+          : undefined
+      );
+    });
+  }
+
+  onProgress(0.98, 'Finalizing...');
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+};
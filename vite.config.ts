@@ -1,7 +1,49 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// ==========================================
+// FFMPEG CORE
+// Served from our own origin instead of unpkg, so compression keeps
+// working behind corporate proxies and strict COEP
+// ==========================================
+const FFMPEG_CORES = {
+  st: { dir: 'node_modules/@ffmpeg/core/dist/esm', files: ['ffmpeg-core.js', 'ffmpeg-core.wasm'] },
+  mt: { dir: 'node_modules/@ffmpeg/core-mt/dist/esm', files: ['ffmpeg-core.js', 'ffmpeg-core.wasm', 'ffmpeg-core.worker.js'] },
+};
+
+const ffmpegCoreFiles = () =>
+  Object.entries(FFMPEG_CORES).flatMap(([type, { dir, files }]) =>
+    files.map(name => ({ path: `${type}/${name}`, source: path.resolve(__dirname, dir, name) }))
+  );
+
+/** SHA-384 of every core file, checked in the browser before the core is loaded */
+const ffmpegCoreIntegrity = () =>
+  Object.fromEntries(ffmpegCoreFiles().map(({ path: file, source }) => [
+    file,
+    'sha384-' + crypto.createHash('sha384').update(fs.readFileSync(source)).digest('base64'),
+  ]));
+
+/** Serves the cores at /ffmpeg/* in dev and copies them into the build */
+const ffmpegCore = (): Plugin => ({
+  name: 'ffmpeg-core',
+  configureServer(server) {
+    server.middlewares.use('/ffmpeg', (req, res, next) => {
+      const file = ffmpegCoreFiles().find(f => req.url === `/${f.path}`);
+      if (!file) return next();
+      res.setHeader('Content-Type', file.path.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file.source).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of ffmpegCoreFiles()) {
+      this.emitFile({ type: 'asset', fileName: `ffmpeg/${file.path}`, source: fs.readFileSync(file.source) });
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, process.cwd(), '');
 
@@ -15,11 +57,20 @@ export default defineConfig(({ mode }) => {
           'Cross-Origin-Embedder-Policy': 'require-corp',
         },
       },
-      plugins: [react()],
+      plugins: [react(), ffmpegCore()],
       define: {
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
-        'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_ANON_KEY)
+        'process.env.SUPABASE_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+        // Where the FFmpeg core is fetched from (defaults to our own /ffmpeg)
+        'process.env.FFMPEG_CORE_URL': JSON.stringify(env.FFMPEG_CORE_URL || '/ffmpeg'),
+        // Point both analysis workers somewhere else, e.g. the dev-upload-server.js stand-in
+        'process.env.ANALYSIS_WORKER_URL': JSON.stringify(env.ANALYSIS_WORKER_URL || ''),
+        // Opt-in worker endpoints, e.g. 'chunked,frames,compare' - see supportsWorkerFeature
+        'process.env.ANALYSIS_WORKER_FEATURES': JSON.stringify(env.ANALYSIS_WORKER_FEATURES || ''),
+        // 'mock' answers every audit locally without calling a model
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER || ''),
+        'process.env.FFMPEG_CORE_INTEGRITY': JSON.stringify(JSON.stringify(ffmpegCoreIntegrity())),
       },
       resolve: {
         alias: {